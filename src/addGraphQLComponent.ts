@@ -1,19 +1,54 @@
-import { InsertGraphQLComponentType, Framework } from "./extensionTypes";
+import {
+  InsertGraphQLComponentType,
+  Framework,
+  Syntax
+} from "./extensionTypes";
 
-import { capitalize, uncapitalize, waitFor } from "./extensionUtils";
+import {
+  capitalize,
+  uncapitalize,
+  waitFor,
+  getSyntax,
+  getFileModuleName
+} from "./extensionUtils";
 
-import { loadFullSchema } from "./loadSchema";
+import { getSchemaForDocument } from "./schemaService";
+import { getUniqueDefinitionName } from "./workspaceIndex";
 
-import { workspace, TextEditorEdit, commands, window, Selection } from "vscode";
+import {
+  TextEditorEdit,
+  TextDocument,
+  commands,
+  window,
+  workspace,
+  Selection
+} from "vscode";
 
 import {
   GraphQLSchema,
   GraphQLNamedType,
   GraphQLObjectType,
-  GraphQLArgument,
-  GraphQLField
+  GraphQLField,
+  getNamedType
 } from "graphql";
 
+import {
+  makeWizardContext,
+  pickArguments,
+  pickSelectionSet,
+  ArgumentsType,
+  WizardVariable
+} from "./selectionWizard";
+
+import { makeComponent, ComponentModule } from "./makeComponent";
+
+import {
+  defaultTemplates,
+  loadTemplates,
+  renderTemplate,
+  Template
+} from "./templates";
+
 async function getValidModuleName(
   docText: string,
   name: string
@@ -35,11 +70,21 @@ interface QuickPickFromSchemaResult {
   result: Thenable<string | undefined>;
 }
 
+/**
+ * Lets the user pick from items of the schema. A preselected item skips the
+ * pick.
+ */
 export function quickPickFromSchema(
+  document: TextDocument,
   placeHolder: string | undefined,
-  getItems: (schema: GraphQLSchema) => string[]
+  getItems: (schema: GraphQLSchema) => string[],
+  preselected?: string
 ): QuickPickFromSchemaResult {
-  const schemaPromise = loadFullSchema(workspace.rootPath || "");
+  const schemaPromise = getSchemaForDocument(document);
+
+  if (preselected) {
+    return { schemaPromise, result: Promise.resolve(preselected) };
+  }
 
   return {
     schemaPromise,
@@ -58,72 +103,146 @@ export function quickPickFromSchema(
   };
 }
 
-interface MakeArgsResult {
-  definition: string;
-  mapper: string;
-}
+export function getExtensionNodeName(
+  framework: Framework,
+  type: InsertGraphQLComponentType,
+  syntax: Syntax
+): string {
+  if (framework === "graphql_ppx") {
+    return "graphql";
+  }
 
-type MakeArgsType = "ALL" | "ONLY_REQUIRED";
+  // ReScript's version of ReasonRelay uses a single %relay node for all types
+  return syntax === "ReScript" ? "relay" : `relay.${uncapitalize(type)}`;
+}
 
-function makeArgs(
-  type: MakeArgsType,
-  field:
-    | GraphQLField<
-        any,
-        any,
-        {
-          [key: string]: any;
-        }
-      >
-    | undefined
-    | null
-): MakeArgsResult {
-  let args = [];
+/**
+ * Picks the template to render, asking the user if there's more than one.
+ * Returns null if the user dismisses the pick.
+ */
+export async function pickTemplate(
+  rootPath: string,
+  framework: Framework,
+  type: InsertGraphQLComponentType,
+  syntax: Syntax
+): Promise<Template | null> {
+  const templates = loadTemplates(rootPath, framework, type, syntax);
 
-  if (!field) {
-    return {
-      definition: "",
-      mapper: ""
-    };
+  if (templates.length <= 1) {
+    return templates[0] || defaultTemplates[syntax];
   }
 
-  switch (type) {
-    case "ALL":
-      args = field.args;
-      break;
-    case "ONLY_REQUIRED":
-      args = field.args.filter(a => a.type.toString().endsWith("!"));
-      break;
-  }
+  const picked = await window.showQuickPick(
+    templates.map(template => template.name),
+    { placeHolder: "Select template" }
+  );
 
-  let definition = "";
-  let mapper = "";
+  return templates.find(template => template.name === picked) || null;
+}
+
+function makeVariableDefinitions(variables: WizardVariable[]): string {
+  return variables.length > 0
+    ? `(${variables
+        .map(
+          v =>
+            `$${v.name}: ${v.type}${
+              v.defaultValue !== undefined ? ` = ${v.defaultValue}` : ""
+            }`
+        )
+        .join(", ")})`
+    : "";
+}
 
-  if (args.length > 0) {
-    definition += "(";
-    mapper += "(";
+/**
+ * Fragments can't define variables, so they take arguments through
+ * @argumentDefinitions instead.
+ */
+function makeArgumentDefinitions(variables: WizardVariable[]): string {
+  return variables.length > 0
+    ? ` @argumentDefinitions(${variables
+        .map(
+          v =>
+            `${v.name}: {type: "${v.type}"${
+              v.defaultValue !== undefined
+                ? `, defaultValue: ${v.defaultValue}`
+                : ""
+            }}`
+        )
+        .join(", ")})`
+    : "";
+}
 
-    definition += args
-      .map((v: GraphQLArgument) => `$${v.name}: ${v.type.toString()}`)
-      .join(", ");
+interface OperationParts {
+  operationName: string;
+  type: string;
+  field: string;
+  variablesDefinition: string;
+  arguments: string;
+  selection: string;
+  variables: WizardVariable[];
+}
 
-    mapper += args
-      .map((v: GraphQLArgument) => `${v.name}: $${v.name}`)
-      .join(", ");
+function makeOperationText(
+  operationType: string,
+  parts: OperationParts
+): string {
+  return operationType === "fragment"
+    ? `fragment ${parts.operationName} on ${parts.type}${parts.variablesDefinition} ${parts.selection}`
+    : `${operationType} ${parts.operationName}${
+        parts.variablesDefinition
+      } {\n  ${parts.field}${parts.arguments}${
+        parts.selection ? ` ${parts.selection}` : ""
+      }\n}`;
+}
 
-    definition += ")";
-    mapper += ")";
+/**
+ * Builds an operation selecting a single root field, letting the user pick
+ * the arguments and selection set of the field.
+ */
+async function makeOperation(
+  schema: GraphQLSchema | null,
+  name: string,
+  field: GraphQLField<any, any> | null,
+  fieldName: string,
+  argumentsType: ArgumentsType
+): Promise<OperationParts> {
+  if (!schema || !field) {
+    return {
+      operationName: name,
+      type: "",
+      field: fieldName,
+      variablesDefinition: "",
+      arguments: "",
+      selection: "",
+      variables: []
+    };
   }
 
+  const context = makeWizardContext(schema);
+  const args = await pickArguments(context, field, argumentsType);
+  const selectionSet = await pickSelectionSet(
+    context,
+    getNamedType(field.type),
+    fieldName,
+    2
+  );
+
   return {
-    definition,
-    mapper
+    operationName: name,
+    type: getNamedType(field.type).name,
+    field: fieldName,
+    variablesDefinition: makeVariableDefinitions(context.variables),
+    arguments: args,
+    selection: selectionSet || "",
+    variables: context.variables
   };
 }
 
 export async function addGraphQLComponent(
   framework: Framework,
-  type: InsertGraphQLComponentType
+  type: InsertGraphQLComponentType,
+  withComponent: boolean = false,
+  preselected?: string
 ) {
   const textEditor = window.activeTextEditor;
 
@@ -132,32 +251,59 @@ export async function addGraphQLComponent(
     return;
   }
 
+  const syntax = getSyntax(textEditor.document.languageId);
+
+  if (!syntax) {
+    window.showErrorMessage(
+      "The active document is not a Reason or ReScript file."
+    );
+    return;
+  }
+
+  let template: Template | null;
+
+  try {
+    template = await pickTemplate(
+      workspace.rootPath || "",
+      framework,
+      type,
+      syntax
+    );
+  } catch (e) {
+    window.showErrorMessage(e.message);
+    return;
+  }
+
+  if (!template) {
+    return;
+  }
+
   const docText = textEditor.document.getText();
+  const extensionNodeName = getExtensionNodeName(framework, type, syntax);
 
-  let insert = "";
+  let generatedModuleName = "";
+  let parts: OperationParts | null = null;
+  let componentModule: ComponentModule | null = null;
 
-  const moduleName = capitalize(
-    (textEditor.document.fileName.split(/\\|\//).pop() || "")
-      .split(".")
-      .shift() || ""
-  );
+  const moduleName = getFileModuleName(textEditor.document.fileName);
 
   switch (type) {
     case "Fragment": {
-      const ppxNodeName =
-        framework === "ReasonRelay" ? "relay.fragment" : "graphql";
-
-      const { result } = quickPickFromSchema("Select type of the fragment", s =>
-        Object.values(s.getTypeMap()).reduce(
-          (acc: string[], curr: GraphQLNamedType) => {
-            if (curr instanceof GraphQLObjectType) {
-              acc.push(curr.name);
-            }
-
-            return acc;
-          },
-          []
-        )
+      const { schemaPromise, result } = quickPickFromSchema(
+        textEditor.document,
+        "Select type of the fragment",
+        s =>
+          Object.values(s.getTypeMap()).reduce(
+            (acc: string[], curr: GraphQLNamedType) => {
+              if (curr instanceof GraphQLObjectType) {
+                acc.push(curr.name);
+              }
+
+              return acc;
+            },
+            []
+          ),
+        preselected
       );
 
       const onType = (await result) || "_";
@@ -167,16 +313,35 @@ export async function addGraphQLComponent(
         `${onType}Fragment`
       );
 
-      insert += `module ${rModuleName} = [%${ppxNodeName}\n  {|\n  fragment ${moduleName}_${uncapitalize(
-        rModuleName.replace("Fragment", "")
-      )} on ${onType} {\n   id\n    \n  }\n|}\n];`;
+      const schema = await schemaPromise;
+      const fragmentType = schema ? schema.getType(onType) : null;
+      const context = schema ? makeWizardContext(schema) : null;
+      const selectionSet =
+        context && fragmentType
+          ? await pickSelectionSet(context, fragmentType, onType, 0)
+          : null;
+
+      const propName = uncapitalize(rModuleName.replace("Fragment", ""));
+      const variables = context ? context.variables : [];
+
+      generatedModuleName = rModuleName;
+      parts = {
+        operationName: await getUniqueDefinitionName(
+          `${moduleName}_${propName}`
+        ),
+        type: onType,
+        field: "",
+        variablesDefinition: makeArgumentDefinitions(variables),
+        arguments: "",
+        selection: selectionSet || "{\n  __typename\n}",
+        variables
+      };
+      componentModule = { name: rModuleName, variables: [], propName };
       break;
     }
     case "Query": {
-      const ppxNodeName =
-        framework === "ReasonRelay" ? "relay.query" : "graphql";
-
       const { schemaPromise, result } = quickPickFromSchema(
+        textEditor.document,
         "Select root field",
         s => {
           const queryObj = s.getQueryType();
@@ -185,7 +350,8 @@ export async function addGraphQLComponent(
           }
 
           return [];
-        }
+        },
+        preselected
       );
 
       const query = (await result) || "_";
@@ -201,19 +367,22 @@ export async function addGraphQLComponent(
         return null;
       });
 
-      const { definition, mapper } = makeArgs("ONLY_REQUIRED", queryField);
+      const name = await getValidModuleName(docText, `Query`);
+      generatedModuleName = name;
+      parts = await makeOperation(
+        await schemaPromise,
+        await getUniqueDefinitionName(`${moduleName}Query`),
+        queryField,
+        query,
+        "ONLY_REQUIRED"
+      );
 
-      insert += `module ${await getValidModuleName(
-        docText,
-        `Query`
-      )} = [%${ppxNodeName}\n  {|\n  query ${moduleName}Query${definition} {\n  ${query}${mapper}  \n  }\n|}\n];`;
+      componentModule = { name, variables: parts.variables, propName: "" };
       break;
     }
     case "Mutation": {
-      const ppxNodeName =
-        framework === "ReasonRelay" ? "relay.mutation" : "graphql";
-
       const { schemaPromise, result } = quickPickFromSchema(
+        textEditor.document,
         "Select mutation",
         s => {
           const mutationObj = s.getMutationType();
@@ -222,7 +391,8 @@ export async function addGraphQLComponent(
           }
 
           return [];
-        }
+        },
+        preselected
       );
 
       const mutation = (await result) || "_";
@@ -238,22 +408,28 @@ export async function addGraphQLComponent(
         return null;
       });
 
-      const { definition, mapper } = makeArgs("ALL", mutationField);
-
-      insert += `module ${await getValidModuleName(
+      const name = await getValidModuleName(
         docText,
         `${capitalize(mutation)}Mutation`
-      )} = [%${ppxNodeName}\n  {|\n  mutation ${moduleName}_${capitalize(
-        mutation
-      )}Mutation${definition} {\n    ${mutation}${mapper}\n  }\n|}\n];`;
+      );
+      generatedModuleName = name;
+      parts = await makeOperation(
+        await schemaPromise,
+        await getUniqueDefinitionName(
+          `${moduleName}_${capitalize(mutation)}Mutation`
+        ),
+        mutationField,
+        mutation,
+        "ALL"
+      );
+
+      componentModule = { name, variables: parts.variables, propName: "" };
       break;
     }
 
     case "Subscription": {
-      const ppxNodeName =
-        framework === "ReasonRelay" ? "relay.subscription" : "graphql";
-
       const { schemaPromise, result } = quickPickFromSchema(
+        textEditor.document,
         "Select subscription",
         s => {
           const subscriptionObj = s.getSubscriptionType();
@@ -262,7 +438,8 @@ export async function addGraphQLComponent(
           }
 
           return [];
-        }
+        },
+        preselected
       );
 
       const subscription = (await result) || "_";
@@ -278,15 +455,49 @@ export async function addGraphQLComponent(
         return null;
       });
 
-      const { definition, mapper } = makeArgs("ALL", subscriptionField);
-      insert += `module ${await getValidModuleName(
-        docText,
-        `Subscription`
-      )} = [%${ppxNodeName}\n  {|\n  subscription ${moduleName}Subscription${definition} {\n  ${subscription}${mapper}  \n  }\n|}\n];`;
+      const name = await getValidModuleName(docText, `Subscription`);
+      generatedModuleName = name;
+      parts = await makeOperation(
+        await schemaPromise,
+        await getUniqueDefinitionName(`${moduleName}Subscription`),
+        subscriptionField,
+        subscription,
+        "ALL"
+      );
+
+      componentModule = { name, variables: parts.variables, propName: "" };
       break;
     }
   }
 
+  if (!parts) {
+    return;
+  }
+
+  const operationType = type === "Fragment" ? "fragment" : uncapitalize(type);
+
+  const { text, cursorOffset } = renderTemplate(template, {
+    moduleName: generatedModuleName,
+    fileModule: moduleName,
+    extensionNode: extensionNodeName,
+    operationType,
+    operationName: parts.operationName,
+    type: parts.type,
+    field: parts.field,
+    variablesDefinition: parts.variablesDefinition,
+    arguments: parts.arguments,
+    selection: parts.selection,
+    operation: makeOperationText(operationType, parts),
+    component:
+      withComponent && componentModule
+        ? makeComponent(syntax, framework, type, componentModule)
+        : ""
+  });
+
+  const insertOffset = textEditor.document.offsetAt(
+    textEditor.selection.active
+  );
+
   await textEditor.edit((editBuilder: TextEditorEdit) => {
     const textDocument = textEditor.document;
 
@@ -294,11 +505,12 @@ export async function addGraphQLComponent(
       return;
     }
 
-    editBuilder.insert(textEditor.selection.active, insert);
+    editBuilder.insert(textEditor.selection.active, text);
   });
 
-  const currentPos = textEditor.selection.active;
-  const newPos = currentPos.with(currentPos.line - 3);
+  const newPos = textEditor.document.positionAt(
+    insertOffset + (cursorOffset !== null ? cursorOffset : text.length)
+  );
 
   textEditor.selection = new Selection(newPos, newPos);
 
@@ -0,0 +1,254 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import * as glob from "glob";
+
+import { GraphQLSchema } from "graphql";
+
+import { getLanguageIdForFile, graphQLFilesGlob } from "./extensionUtils";
+import {
+  applySourceEdits,
+  formatFileText,
+  getErrorMessage,
+  getFailureLocation
+} from "./formatFiles";
+import { getProjectNamesForFile } from "./graphqlConfig";
+import { loadFullSchema } from "./loadSchema";
+import {
+  collectPersistedQueries,
+  makeHashAnnotationEdits,
+  manifestFileName
+} from "./persistedQueries";
+import { validateFiles, ValidationError } from "./validateFiles";
+
+/**
+ * Runs what the extension does to files outside of the editor, so that CI can
+ * enforce it:
+ *
+ *   reasonml-graphql format [--check] [...files or globs]
+ *   reasonml-graphql validate [--json] [...files or globs]
+ *   reasonml-graphql persist [--annotate] [...files or globs]
+ *
+ * Files default to every Reason, ReScript and GraphQL file in the current
+ * directory, outside of node_modules.
+ */
+
+const usage = `Usage: reasonml-graphql <command> [options] [...files or globs]
+
+Commands:
+  format    Formats the GraphQL in the files.
+            --check  Lists the files that aren't formatted instead, and exits
+                     with a non-zero code if there are any.
+  validate  Validates the GraphQL in the files against the schema, and exits
+            with a non-zero code if there are any errors.
+            --json   Prints the errors as JSON.
+  persist   Writes a manifest of persisted queries for the operations in the
+            files to ${manifestFileName}.
+            --annotate  Also adds the hash of each operation as a comment
+                        above its module.`;
+
+interface CliArgs {
+  command: string | undefined;
+  flags: Set<string>;
+  patterns: string[];
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const [command, ...rest] = argv;
+
+  return {
+    command,
+    flags: new Set(rest.filter(arg => arg.startsWith("--"))),
+    patterns: rest.filter(arg => !arg.startsWith("--"))
+  };
+}
+
+function findFiles(patterns: string[]): string[] {
+  return (patterns.length > 0 ? patterns : [graphQLFilesGlob]).reduce(
+    (acc: string[], pattern) => {
+      glob
+        .sync(pattern, {
+          nodir: true,
+          absolute: true,
+          ignore: "**/node_modules/**"
+        })
+        .filter(file => getLanguageIdForFile(file) && !acc.includes(file))
+        .forEach(file => acc.push(file));
+
+      return acc;
+    },
+    []
+  );
+}
+
+const relative = (file: string) => path.relative(process.cwd(), file);
+
+async function format(files: string[], check: boolean): Promise<number> {
+  let unformatted = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    const text = fs.readFileSync(file, "utf8");
+    const { edits, failures } = await formatFileText(
+      file,
+      getLanguageIdForFile(file) || "",
+      text
+    );
+
+    failures.forEach(failure => {
+      const { line, column } = getFailureLocation(failure);
+      console.error(
+        `${relative(file)}:${line}:${column}: ${getErrorMessage(failure.error)}`
+      );
+    });
+
+    failed += failures.length > 0 ? 1 : 0;
+
+    if (edits.length === 0) {
+      continue;
+    }
+
+    unformatted++;
+
+    if (check) {
+      console.log(relative(file));
+    } else {
+      fs.writeFileSync(file, applySourceEdits(text, edits));
+      console.log(`Formatted ${relative(file)}`);
+    }
+  }
+
+  if (check && unformatted > 0) {
+    console.error(
+      `\nThe GraphQL in ${unformatted} file${
+        unformatted === 1 ? " isn't" : "s aren't"
+      } formatted. Run without --check to format.`
+    );
+  }
+
+  return failed > 0 || (check && unformatted > 0) ? 1 : 0;
+}
+
+/**
+ * Loads the schema of each file's graphql-config project, once per project.
+ * Files matching several projects are validated against the first one.
+ */
+function makeSchemaGetter(
+  rootPath: string
+): (filePath: string) => Promise<GraphQLSchema | null> {
+  const schemas: Map<string, Promise<GraphQLSchema | null>> = new Map();
+
+  return (filePath: string) => {
+    const [projectName] = getProjectNamesForFile(rootPath, filePath);
+    const key = projectName || "";
+    const schema = schemas.get(key) || loadFullSchema(rootPath, projectName);
+
+    schemas.set(key, schema);
+    return schema;
+  };
+}
+
+const formatError = (error: ValidationError) =>
+  `${relative(error.filePath)}:${error.line}:${error.column}: ${error.message}`;
+
+async function validate(files: string[], json: boolean): Promise<number> {
+  const rootPath = process.cwd();
+  const getSchema = makeSchemaGetter(rootPath);
+
+  const errors = await validateFiles(
+    files.map(filePath => ({
+      filePath,
+      languageId: getLanguageIdForFile(filePath) || "",
+      text: fs.readFileSync(filePath, "utf8")
+    })),
+    getSchema
+  );
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        errors.map(error => ({ ...error, filePath: relative(error.filePath) })),
+        null,
+        2
+      )
+    );
+  } else {
+    errors.forEach(error => console.error(formatError(error)));
+    console.error(
+      errors.length > 0
+        ? `\nFound ${errors.length} error${errors.length === 1 ? "" : "s"}.`
+        : `Validated ${files.length} file${files.length === 1 ? "" : "s"}.`
+    );
+  }
+
+  return errors.length > 0 ? 1 : 0;
+}
+
+function persist(files: string[], annotate: boolean): number {
+  const sourceFiles = files.map(filePath => ({
+    filePath,
+    languageId: getLanguageIdForFile(filePath) || "",
+    text: fs.readFileSync(filePath, "utf8")
+  }));
+
+  const { manifest, operations } = collectPersistedQueries(sourceFiles);
+
+  // The manifest is only written once the modules are annotated, so that it
+  // never gets ahead of the hashes in them
+  if (annotate) {
+    for (const file of sourceFiles) {
+      const edits = makeHashAnnotationEdits(file, operations);
+      const text = applySourceEdits(file.text, edits);
+
+      if (text === file.text) {
+        continue;
+      }
+
+      try {
+        fs.writeFileSync(file.filePath, text);
+      } catch (e) {
+        console.error(
+          `Could not annotate ${relative(file.filePath)}: ${
+            e instanceof Error ? e.message : String(e)
+          }`
+        );
+        return 1;
+      }
+
+      console.log(`Annotated ${relative(file.filePath)}`);
+    }
+  }
+
+  fs.writeFileSync(manifestFileName, JSON.stringify(manifest, null, 2) + "\n");
+  console.log(
+    `Wrote ${operations.length} persisted quer${
+      operations.length === 1 ? "y" : "ies"
+    } to ${manifestFileName}.`
+  );
+
+  return 0;
+}
+
+async function run(argv: string[]): Promise<number> {
+  const { command, flags, patterns } = parseArgs(argv);
+
+  switch (command) {
+    case "format":
+      return format(findFiles(patterns), flags.has("--check"));
+    case "validate":
+      return validate(findFiles(patterns), flags.has("--json"));
+    case "persist":
+      return persist(findFiles(patterns), flags.has("--annotate"));
+    default:
+      console.error(usage);
+      return command === "--help" ? 0 : 1;
+  }
+}
+
+run(process.argv.slice(2)).then(
+  code => process.exit(code),
+  e => {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+);
@@ -0,0 +1,296 @@
+import * as path from "path";
+import {
+  commands,
+  languages,
+  window,
+  workspace,
+  CodeAction,
+  CodeActionKind,
+  CodeActionProvider,
+  EventEmitter,
+  ExtensionContext,
+  Range,
+  TextDocument,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  WorkspaceEdit
+} from "vscode";
+import { GraphQLSchema } from "graphql";
+import { getLocator } from "locate-character";
+
+import { parseGraphQLSources } from "./findGraphQLSources";
+import {
+  findModuleName,
+  getFileModuleName,
+  getLanguageIdForFile,
+  getTextOffset,
+  graphQLFilesGlob
+} from "./extensionUtils";
+import {
+  findSchemaForFile,
+  onDidChangeCurrentSchema,
+  onDidReplaceSchema
+} from "./schemaService";
+import { findSchemaUsages, getDeprecation, Deprecation } from "./schemaUsages";
+import { readWorkspaceFile } from "./workspaceIndex";
+
+/**
+ * Lists where the GraphQL in the workspace still uses deprecated fields,
+ * arguments and enum values of the schema of its project, grouped by what's
+ * deprecated. Fields whose deprecation reason names a replacement can be
+ * swapped for it through a quick fix.
+ */
+
+const viewId = "vscode-reasonml-graphql.deprecated-usages";
+const refreshCommand = "vscode-reasonml-graphql.refresh-deprecated-usages";
+
+interface DeprecatedUsage extends Deprecation {
+  coordinate: string;
+  /**
+   * The offsets of the usage in the text of the file.
+   */
+  start: number;
+  end: number;
+  moduleName: string;
+}
+
+interface FileDeprecatedUsage extends DeprecatedUsage {
+  uri: Uri;
+  /**
+   * The 0-based position of the usage in the file.
+   */
+  line: number;
+  column: number;
+}
+
+type DeprecationNode =
+  | {
+      kind: "deprecation";
+      coordinate: string;
+      reason: string;
+      usages: FileDeprecatedUsage[];
+    }
+  | { kind: "usage"; usage: FileDeprecatedUsage };
+
+const treeChanged: EventEmitter<
+  DeprecationNode | undefined
+> = new EventEmitter();
+
+let deprecationNodes: Promise<DeprecationNode[]> | null = null;
+
+function findDeprecatedUsages(
+  schema: GraphQLSchema,
+  filePath: string,
+  text: string
+): DeprecatedUsage[] {
+  const languageId = getLanguageIdForFile(filePath);
+  const parsedSources = languageId ? parseGraphQLSources(languageId, text) : [];
+
+  return parsedSources.reduce(
+    (acc: DeprecatedUsage[], { source, document }) => {
+      const usages = findSchemaUsages(schema, document);
+      const sourceOffset =
+        source.type === "TAG" ? getTextOffset(text, source.start) : 0;
+      const moduleName =
+        source.type === "TAG" ? findModuleName(text, sourceOffset) : null;
+
+      usages.forEach(usage => {
+        const deprecation = getDeprecation(schema, usage);
+
+        if (deprecation) {
+          acc.push({
+            ...deprecation,
+            coordinate: usage.coordinate,
+            start: sourceOffset + usage.start,
+            end: sourceOffset + usage.end,
+            moduleName: moduleName
+              ? `${getFileModuleName(filePath)}.${moduleName}`
+              : getFileModuleName(filePath)
+          });
+        }
+      });
+
+      return acc;
+    },
+    []
+  );
+}
+
+/**
+ * Files whose project is ambiguous are left out, since there's no telling
+ * which schema they're written for without asking.
+ */
+async function findWorkspaceDeprecatedUsages(): Promise<FileDeprecatedUsage[]> {
+  const uris = await workspace.findFiles(
+    graphQLFilesGlob,
+    "**/node_modules/**"
+  );
+  const usages: FileDeprecatedUsage[] = [];
+
+  for (const uri of uris) {
+    const schema = await findSchemaForFile(uri.fsPath);
+
+    if (!schema) {
+      continue;
+    }
+
+    const text = readWorkspaceFile(uri);
+    const locator = getLocator(text);
+
+    findDeprecatedUsages(schema, uri.fsPath, text).forEach(usage =>
+      usages.push({ ...usage, uri, ...locator(usage.start) })
+    );
+  }
+
+  return usages;
+}
+
+async function findDeprecationNodes(): Promise<DeprecationNode[]> {
+  const usages = await findWorkspaceDeprecatedUsages();
+  const nodes: Map<string, DeprecationNode> = new Map();
+
+  usages.forEach(usage => {
+    const node = nodes.get(usage.coordinate);
+
+    if (node && node.kind === "deprecation") {
+      node.usages.push(usage);
+    } else {
+      nodes.set(usage.coordinate, {
+        kind: "deprecation",
+        coordinate: usage.coordinate,
+        reason: usage.reason,
+        usages: [usage]
+      });
+    }
+  });
+
+  return Array.from(nodes.keys())
+    .sort()
+    .map(coordinate => nodes.get(coordinate) as DeprecationNode);
+}
+
+function getTreeItem(node: DeprecationNode): TreeItem {
+  if (node.kind === "deprecation") {
+    const item = new TreeItem(
+      node.coordinate,
+      TreeItemCollapsibleState.Expanded
+    );
+
+    item.description = `${node.usages.length} usage${
+      node.usages.length === 1 ? "" : "s"
+    }`;
+    item.tooltip = `Deprecated: ${node.reason}`;
+    return item;
+  }
+
+  const { usage } = node;
+  const item = new TreeItem(
+    `${path.basename(usage.uri.fsPath)}:${usage.line + 1}`,
+    TreeItemCollapsibleState.None
+  );
+
+  item.description = usage.moduleName;
+  item.tooltip = `${path.relative(workspace.rootPath || "", usage.uri.fsPath)}${
+    usage.replacement ? `\n\nReplace with ${usage.replacement}` : ""
+  }`;
+  item.resourceUri = usage.uri;
+  item.command = {
+    title: "Open",
+    command: "vscode.open",
+    arguments: [
+      usage.uri,
+      {
+        selection: new Range(
+          usage.line,
+          usage.column,
+          usage.line,
+          usage.column + usage.end - usage.start
+        )
+      }
+    ]
+  };
+
+  return item;
+}
+
+const treeDataProvider: TreeDataProvider<DeprecationNode> = {
+  onDidChangeTreeData: treeChanged.event,
+  getTreeItem,
+  getChildren(node?: DeprecationNode) {
+    if (!node) {
+      deprecationNodes = deprecationNodes || findDeprecationNodes();
+      return deprecationNodes;
+    }
+
+    return node.kind === "deprecation"
+      ? node.usages.map((usage): DeprecationNode => ({ kind: "usage", usage }))
+      : [];
+  }
+};
+
+function refresh() {
+  deprecationNodes = null;
+  treeChanged.fire(undefined);
+}
+
+const codeActionProvider: CodeActionProvider = {
+  async provideCodeActions(document: TextDocument, range: Range) {
+    const schema = await findSchemaForFile(document.fileName);
+
+    if (!schema) {
+      return [];
+    }
+
+    return findDeprecatedUsages(
+      schema,
+      document.fileName,
+      document.getText()
+    ).reduce((acc: CodeAction[], usage) => {
+      const usageRange = new Range(
+        document.positionAt(usage.start),
+        document.positionAt(usage.end)
+      );
+
+      if (!usage.replacement || !usageRange.intersection(range)) {
+        return acc;
+      }
+
+      const action = new CodeAction(
+        `Replace deprecated ${usage.coordinate} with ${usage.replacement}`,
+        CodeActionKind.QuickFix
+      );
+
+      action.edit = new WorkspaceEdit();
+      action.edit.replace(document.uri, usageRange, usage.replacement);
+      action.isPreferred = true;
+      acc.push(action);
+      return acc;
+    }, []);
+  }
+};
+
+export function initDeprecatedUsages(context: ExtensionContext): void {
+  context.subscriptions.push(
+    treeChanged,
+    window.registerTreeDataProvider(viewId, treeDataProvider),
+    languages.registerCodeActionsProvider(
+      [
+        { scheme: "file", language: "graphql" },
+        { scheme: "file", language: "reason" },
+        { scheme: "file", language: "rescript" }
+      ],
+      codeActionProvider,
+      { providedCodeActionKinds: [CodeActionKind.QuickFix] }
+    ),
+    onDidChangeCurrentSchema(refresh),
+    onDidReplaceSchema(refresh),
+    workspace.onDidSaveTextDocument(document => {
+      if (getLanguageIdForFile(document.fileName)) {
+        refresh();
+      }
+    }),
+    commands.registerCommand(refreshCommand, refresh)
+  );
+}
@@ -0,0 +1,131 @@
+import * as fs from "fs";
+import { GraphQLEndpoint } from "graphql-config";
+import { buildClientSchema, printSchema } from "graphql";
+import { getSchemaType } from "./extensionUtils";
+import { loadGraphQLConfig } from "./graphqlConfig";
+
+/**
+ * Endpoints are read from the `extensions.endpoints` section of the
+ * graphql-config, where each endpoint is either a URL or an object with a
+ * `url` and `headers`. Values can reference environment variables through
+ * `${env:NAME}`.
+ */
+
+const defaultEndpointName = "default";
+
+function getEndpointsExtension(rootPath: string, projectName?: string) {
+  return loadGraphQLConfig(rootPath).getProjectConfig(projectName)
+    .endpointsExtension;
+}
+
+export function getEndpointNames(
+  rootPath: string,
+  projectName?: string
+): string[] {
+  try {
+    const endpointsExtension = getEndpointsExtension(rootPath, projectName);
+
+    return endpointsExtension
+      ? Object.keys(endpointsExtension.getRawEndpointsMap())
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The endpoint to use when none is picked explicitly. That's the one named
+ * `default` if there is one, otherwise the first one.
+ */
+export function getDefaultEndpointName(endpointNames: string[]): string | null {
+  return endpointNames.includes(defaultEndpointName)
+    ? defaultEndpointName
+    : endpointNames[0] || null;
+}
+
+/**
+ * Whether a schema file that doesn't exist yet may be introspected from the
+ * default endpoint when the schema is loaded. Loading a schema shouldn't
+ * reach out to the network and write files unless the config opts into it,
+ * through `extensions.introspectMissingSchema`.
+ */
+export function shouldIntrospectMissingSchema(
+  rootPath: string,
+  projectName?: string
+): boolean {
+  try {
+    const { extensions } = loadGraphQLConfig(rootPath).getProjectConfig(
+      projectName
+    );
+
+    return !!extensions && extensions.introspectMissingSchema === true;
+  } catch {
+    return false;
+  }
+}
+
+export function getEndpoint(
+  rootPath: string,
+  projectName: string | undefined,
+  endpointName: string
+): GraphQLEndpoint {
+  const endpointsExtension = getEndpointsExtension(rootPath, projectName);
+
+  if (!endpointsExtension) {
+    throw new Error("No endpoints configured in 'extensions.endpoints'.");
+  }
+
+  return endpointsExtension.getEndpoint(endpointName, process.env);
+}
+
+/**
+ * Runs the introspection query against the endpoint, returning the result
+ * serialized in the format of the schema file it's going to be written to.
+ */
+export async function introspectEndpoint(
+  endpoint: GraphQLEndpoint,
+  schemaPath: string
+): Promise<string> {
+  const introspection = await endpoint.resolveIntrospection();
+
+  if (!introspection || !introspection.data) {
+    throw new Error(`Introspecting ${endpoint.url} did not return a schema.`);
+  }
+
+  switch (getSchemaType(schemaPath)) {
+    case "json":
+      return JSON.stringify(introspection, null, 2);
+    case "sdl":
+      return printSchema(buildClientSchema(introspection.data));
+    default:
+      throw new Error(
+        `Cannot write schema to '${schemaPath}', only .json, .graphql, .graphqls and .gql files are supported.`
+      );
+  }
+}
+
+/**
+ * Introspects the endpoint and writes the result to the schema path of the
+ * project. Returns the path that was written.
+ */
+export async function refreshSchemaFile(
+  rootPath: string,
+  projectName: string | undefined,
+  endpointName: string
+): Promise<string> {
+  const schemaPath = loadGraphQLConfig(rootPath).getProjectConfig(projectName)
+    .schemaPath;
+
+  if (!schemaPath) {
+    throw new Error("No 'schemaPath' to write the schema to in the config.");
+  }
+
+  const content = await introspectEndpoint(
+    getEndpoint(rootPath, projectName, endpointName),
+    schemaPath
+  );
+
+  fs.writeFileSync(schemaPath, content);
+
+  return schemaPath;
+}
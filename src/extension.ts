@@ -2,12 +2,10 @@ import * as path from "path";
 import {
   workspace,
   ExtensionContext,
+  FileSystemWatcher,
   window,
   OutputChannel,
-  commands,
-  TextEditorEdit,
-  Range,
-  Position
+  commands
 } from "vscode";
 
 import {
@@ -17,69 +15,24 @@ import {
   TransportKind
 } from "vscode-languageclient";
 
-import { prettify, restoreOperationPadding } from "./extensionUtils";
-import { extractGraphQLSources } from "./findGraphQLSources";
-
-import { GraphQLSource } from "./extensionTypes";
-
 import { addGraphQLComponent } from "./addGraphQLComponent";
-
-function formatDocument() {
-  const textEditor = window.activeTextEditor;
-
-  if (!textEditor) {
-    window.showErrorMessage("Missing active text editor.");
-    return;
-  }
-
-  const sources = extractGraphQLSources(
-    textEditor.document.languageId,
-    textEditor.document.getText()
-  );
-
-  textEditor.edit((editBuilder: TextEditorEdit) => {
-    const textDocument = textEditor.document;
-
-    if (!textDocument) {
-      return;
-    }
-
-    if (sources) {
-      sources.forEach((source: GraphQLSource) => {
-        if (source.type === "TAG" && /^[\s]+$/g.test(source.content)) {
-          window.showInformationMessage("Cannot format an empty code block.");
-          return;
-        }
-        try {
-          const newContent = restoreOperationPadding(
-            prettify(source.content),
-            source.content
-          );
-
-          if (source.type === "TAG") {
-            editBuilder.replace(
-              new Range(
-                new Position(source.start.line, source.start.character),
-                new Position(source.end.line, source.end.character)
-              ),
-              newContent
-            );
-          } else if (source.type === "FULL_DOCUMENT" && textDocument) {
-            editBuilder.replace(
-              new Range(
-                new Position(0, 0),
-                new Position(textDocument.lineCount + 1, 0)
-              ),
-              newContent
-            );
-          }
-        } catch {
-          // Silent
-        }
-      });
-    }
-  });
-}
+import { initSchemaService, reloadSchema } from "./schemaService";
+import {
+  formatDocument,
+  formatWorkspace,
+  initFormattingProviders
+} from "./formattingProvider";
+import { refreshSchemaFromEndpoint } from "./refreshSchema";
+import { generatePersistedQueries } from "./generatePersistedQueries";
+import { initRelayDiagnostics } from "./relayDiagnostics";
+import { initFileRenames } from "./renameFiles";
+import { initWorkspaceIndex } from "./workspaceIndex";
+import { initWorkspaceDiagnostics } from "./workspaceDiagnostics";
+import { initOperationCodeLenses } from "./operationCodeLens";
+import { initSchemaExplorer } from "./schemaExplorer";
+import { initSchemaChanges } from "./schemaChanges";
+import { initDeprecatedUsages } from "./deprecatedUsages";
+import { initFragmentRefactorings } from "./fragmentRefactorings";
 
 function initCommands(context: ExtensionContext): void {
   context.subscriptions.push(
@@ -87,6 +40,21 @@ function initCommands(context: ExtensionContext): void {
       "vscode-reasonml-graphql.format-document",
       formatDocument
     ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.format-workspace",
+      formatWorkspace
+    ),
+    commands.registerCommand("vscode-reasonml-graphql.reload-schema", () =>
+      reloadSchema()
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.refresh-schema-from-endpoint",
+      refreshSchemaFromEndpoint
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.generate-persisted-queries",
+      generatePersistedQueries
+    ),
     commands.registerCommand(
       "vscode-reasonml-graphql.add-reason-relay-fragment",
       () => addGraphQLComponent("ReasonRelay", "Fragment")
@@ -118,13 +86,46 @@ function initCommands(context: ExtensionContext): void {
     commands.registerCommand(
       "vscode-reasonml-graphql.add-graphqlppx-subscription",
       () => addGraphQLComponent("graphql_ppx", "Subscription")
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-reason-relay-fragment-with-component",
+      () => addGraphQLComponent("ReasonRelay", "Fragment", true)
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-reason-relay-query-with-component",
+      () => addGraphQLComponent("ReasonRelay", "Query", true)
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-reason-relay-mutation-with-component",
+      () => addGraphQLComponent("ReasonRelay", "Mutation", true)
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-reason-relay-subscription-with-component",
+      () => addGraphQLComponent("ReasonRelay", "Subscription", true)
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-graphqlppx-fragment-with-component",
+      () => addGraphQLComponent("graphql_ppx", "Fragment", true)
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-graphqlppx-query-with-component",
+      () => addGraphQLComponent("graphql_ppx", "Query", true)
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-graphqlppx-mutation-with-component",
+      () => addGraphQLComponent("graphql_ppx", "Mutation", true)
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.add-graphqlppx-subscription-with-component",
+      () => addGraphQLComponent("graphql_ppx", "Subscription", true)
     )
   );
 }
 
 function initLanguageServer(
   context: ExtensionContext,
-  outputChannel: OutputChannel
+  outputChannel: OutputChannel,
+  sourceWatcher: FileSystemWatcher
 ): void {
   const serverModule = context.asAbsolutePath(path.join("build", "server.js"));
 
@@ -148,10 +149,11 @@ function initLanguageServer(
   let clientOptions: LanguageClientOptions = {
     documentSelector: [
       { scheme: "file", language: "graphql" },
-      { scheme: "file", language: "reason" }
+      { scheme: "file", language: "reason" },
+      { scheme: "file", language: "rescript" }
     ],
     synchronize: {
-      fileEvents: workspace.createFileSystemWatcher("**/*.{graphql,gql,re}")
+      fileEvents: sourceWatcher
     },
     outputChannel: outputChannel,
     outputChannelName: "GraphQL Language Server"
@@ -173,7 +175,23 @@ export async function activate(context: ExtensionContext) {
     "GraphQL Language Server"
   );
 
-  initLanguageServer(context, outputChannel);
+  const sourceWatcher = workspace.createFileSystemWatcher(
+    "**/*.{graphql,graphqls,gql,re,res}"
+  );
+  context.subscriptions.push(sourceWatcher);
+
+  initLanguageServer(context, outputChannel, sourceWatcher);
+  initSchemaService(context);
+  initFormattingProviders(context);
+  initRelayDiagnostics(context);
+  initFileRenames(context);
+  initWorkspaceIndex(context, sourceWatcher);
+  initWorkspaceDiagnostics(context);
+  initOperationCodeLenses(context);
+  initSchemaExplorer(context);
+  initSchemaChanges(context);
+  initDeprecatedUsages(context);
+  initFragmentRefactorings(context);
   initCommands(context);
 }
 
@@ -1,11 +1,16 @@
 export type RawSchema = {
   content: string;
   type: "json" | "sdl";
+  /**
+   * The files, or globs, the schema was loaded from.
+   */
+  paths: Array<string>;
 };
 
 export type SchemaLoader = (
   rootPath: string,
-  filesInRoot: Array<string>
+  filesInRoot: Array<string>,
+  projectName?: string
 ) => Promise<RawSchema | null>;
 
 export type GraphQLSourceFromFullDocument = {
@@ -16,6 +21,11 @@ export type GraphQLSourceFromFullDocument = {
 export type GraphQLSourceFromTag = {
   type: "TAG";
   content: string;
+  /**
+   * The extension node the GraphQL is passed to in Reason and ReScript, like
+   * `relay.query` or `graphql`.
+   */
+  extensionNode?: string;
   start: {
     line: number;
     character: number;
@@ -37,3 +47,5 @@ export type InsertGraphQLComponentType =
   | "Subscription";
 
 export type Framework = "ReasonRelay" | "graphql_ppx";
+
+export type Syntax = "Reason" | "ReScript";
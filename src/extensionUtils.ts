@@ -1,10 +1,15 @@
+import * as path from "path";
 import * as prettier from "prettier/standalone";
 import * as parserGraphql from "prettier/parser-graphql";
+import { Options, resolveConfig } from "prettier";
+import { getLocator } from "locate-character";
+import { Syntax, GraphQLSource } from "./extensionTypes";
 
-export function prettify(str: string): string {
+export function prettify(str: string, options: Options = {}): string {
   return (
     prettier
       .format(str, {
+        ...options,
         parser: "graphql",
         plugins: [parserGraphql]
       })
@@ -49,6 +54,151 @@ export const restoreOperationPadding = (
   );
 };
 
+const prettierLayoutOptions: Array<keyof Options> = [
+  "printWidth",
+  "tabWidth",
+  "useTabs",
+  "bracketSpacing"
+];
+
+/**
+ * Resolves the Prettier options that affect how GraphQL is printed, from the
+ * Prettier config (or .editorconfig) that applies to the file.
+ */
+export async function resolvePrettierOptions(
+  filePath: string
+): Promise<Options> {
+  const config = await resolveConfig(filePath, { editorconfig: true });
+
+  if (!config) {
+    return {};
+  }
+
+  return prettierLayoutOptions.reduce(
+    (acc: Options, key) =>
+      config[key] === undefined ? acc : { ...acc, [key]: config[key] },
+    {}
+  );
+}
+
+/**
+ * Formats a GraphQL source, returning its new content. Operations in tags
+ * keep their padding, so the print width is reduced by that padding to
+ * make the padded operation fit.
+ */
+export function formatGraphQLSource(
+  source: GraphQLSource,
+  options: Options = {}
+): string {
+  if (source.type === "FULL_DOCUMENT") {
+    return prettify(source.content, options) + "\n";
+  }
+
+  const padding = findOperationPadding(source.content);
+
+  return restoreOperationPadding(
+    prettify(source.content, {
+      ...options,
+      printWidth: Math.max((options.printWidth || 80) - padding, 0)
+    }),
+    source.content
+  );
+}
+
+/**
+ * Maps a 1-based location in a GraphQL source to the 1-based location in the
+ * file the source is in.
+ */
+export function getFileLocation(
+  source: GraphQLSource,
+  loc: { line: number; column: number }
+): { line: number; column: number } {
+  switch (source.type) {
+    case "TAG":
+      return {
+        line: source.start.line + loc.line,
+        column: (loc.line === 1 ? source.start.character : 0) + loc.column
+      };
+    case "FULL_DOCUMENT":
+      return loc;
+  }
+}
+
+/**
+ * Converts a 0-based line and character, like the start of a tag, to an
+ * offset in the text.
+ */
+export function getTextOffset(
+  text: string,
+  position: { line: number; character: number }
+): number {
+  return text
+    .split("\n")
+    .slice(0, position.line)
+    .reduce((offset, line) => offset + line.length + 1, position.character);
+}
+
+/**
+ * Makes a function converting offsets in the text to 0-based lines and
+ * characters, the reverse of getTextOffset.
+ */
+export function makeTextPositions(
+  text: string
+): (offset: number) => { line: number; character: number } {
+  const locator = getLocator(text);
+
+  return (offset: number) => {
+    const { line, column } = locator(offset);
+    return { line, character: column };
+  };
+}
+
+export function getSyntax(languageId: string): Syntax | null {
+  switch (languageId) {
+    case "reason":
+      return "Reason";
+    case "rescript":
+      return "ReScript";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Every file that getLanguageIdForFile knows the language of.
+ */
+export const graphQLFilesGlob = "**/*.{re,res,graphql,gql}";
+
+/**
+ * The language id of files containing GraphQL, going by their extension.
+ */
+export function getLanguageIdForFile(filePath: string): string | null {
+  switch (path.extname(filePath)) {
+    case ".re":
+      return "reason";
+    case ".res":
+      return "rescript";
+    case ".graphql":
+    case ".gql":
+      return "graphql";
+    default:
+      return null;
+  }
+}
+
+/**
+ * The format of a schema file, going by its extension.
+ */
+export function getSchemaType(schemaPath: string): "json" | "sdl" | null {
+  const schemaExtName = path.extname(schemaPath);
+
+  return [".graphql", ".graphqls", ".gql"].includes(schemaExtName)
+    ? "sdl"
+    : schemaExtName === ".json"
+    ? "json"
+    : null;
+}
+
 export function capitalize(str: string): string {
   return str.slice(0, 1).toUpperCase() + str.slice(1);
 }
@@ -57,6 +207,42 @@ export function uncapitalize(str: string): string {
   return str.slice(0, 1).toLowerCase() + str.slice(1);
 }
 
+/**
+ * Reason and ReScript files are modules named after the file.
+ */
+export function getFileModuleName(fileName: string): string {
+  return capitalize(
+    (fileName.split(/\\|\//).pop() || "").split(".").shift() || ""
+  );
+}
+
+/**
+ * Finds the name of the module the text at the offset is in, which is the
+ * last module declared before it.
+ */
+export function findModuleName(text: string, offset: number): string | null {
+  const modules = text.slice(0, offset).match(/module\s+[A-Z][\w']*/g);
+
+  return modules ? modules[modules.length - 1].replace(/^module\s+/, "") : null;
+}
+
+/**
+ * Numbers the name until it isn't taken. The number goes before the
+ * `Query`, `Mutation` or `Subscription` suffix, which ReasonRelay requires
+ * operation names to end with.
+ */
+export function makeUniqueName(name: string, takenNames: string[]): string {
+  const [, base, suffix = ""] =
+    name.match(/^(.*?)(Query|Mutation|Subscription)?$/) || [];
+  let uniqueName = name;
+
+  for (let i = 2; takenNames.includes(uniqueName); i++) {
+    uniqueName = `${base}${i}${suffix}`;
+  }
+
+  return uniqueName;
+}
+
 export function waitFor(time: number): Promise<void> {
   return new Promise(resolve => {
     setTimeout(resolve, time);
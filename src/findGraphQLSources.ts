@@ -1,5 +1,6 @@
+import { DocumentNode, parse } from "graphql";
 import { getLocator } from "locate-character";
-import { GraphQLSource, GraphQLSourceFromTag } from "./extensionTypes";
+import { GraphQLSource, GraphQLSourceFromTag, Syntax } from "./extensionTypes";
 
 /**
  * A helper for extracting GraphQL operations from source via a regexp.
@@ -40,16 +41,273 @@ export const jsGraphQLTagsRegexp = new RegExp(
   /(?<=(graphql|gql|graphql\.experimental)`)[.\s\S]+?(?=`)/g
 );
 export const reasonFileFilterRegexp = new RegExp(/(\[%(graphql|relay\.))/g);
-export const reasonGraphQLTagsRegexp = new RegExp(
-  /(?<=\[%(graphql|relay\.\w*)[\s\S]*{\|)[.\s\S]+?(?=\|})/gm
-);
+export const rescriptFileFilterRegexp = new RegExp(/(%(graphql|relay)[(.])/g);
 
 const extractGraphQLSourceFromJs = makeExtractTagsFromSource(
   jsGraphQLTagsRegexp
 );
 
-const extractGraphQLSourceFromReason = makeExtractTagsFromSource(
-  reasonGraphQLTagsRegexp
+interface ContentRange {
+  start: number;
+  end: number;
+}
+
+interface ExtensionNodeContent extends ContentRange {
+  extensionNode: string;
+}
+
+const reasonExtensionNodeRegexp = /\[%(graphql|relay\.\w+)(?![\w.])/y;
+const rescriptExtensionNodeRegexp = /%(graphql|relay(\.\w+)?)\(/y;
+const quotedStringOpenRegexp = /{([a-z_]*)\|/y;
+const charLiteralRegexp = /'(\\([\\'"ntbr ]|\d{3}|x[0-9a-fA-F]{2}|o[0-7]{3})|[^\\'\n])'/y;
+const identifierCharRegexp = /[\w']/;
+
+const matchAt = (regexp: RegExp, text: string, index: number) => {
+  regexp.lastIndex = index;
+  return regexp.exec(text);
+};
+
+/**
+ * Skips a comment starting at index, returning the index right after it, or
+ * null if there's no comment at index. Block comments nest, so the end of
+ * a comment inside another one doesn't end the outer one.
+ */
+const skipComment = (text: string, index: number): number | null => {
+  if (text.startsWith("//", index)) {
+    const lineEnd = text.indexOf("\n", index);
+    return lineEnd === -1 ? text.length : lineEnd;
+  }
+
+  if (!text.startsWith("/*", index)) {
+    return null;
+  }
+
+  let depth = 1;
+  let i = index + 2;
+
+  while (i < text.length && depth > 0) {
+    if (text.startsWith("/*", i)) {
+      depth += 1;
+      i += 2;
+    } else if (text.startsWith("*/", i)) {
+      depth -= 1;
+      i += 2;
+    } else {
+      i += 1;
+    }
+  }
+
+  return i;
+};
+
+const skipWhitespaceAndComments = (text: string, index: number): number => {
+  let i = index;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i += 1;
+      continue;
+    }
+
+    const afterComment = skipComment(text, i);
+
+    if (afterComment === null) {
+      break;
+    }
+
+    i = afterComment;
+  }
+
+  return i;
+};
+
+/**
+ * Reads a string delimited by the same character on both ends (like "..."
+ * or `...`), with backslash escapes. Returns the range of its content and the
+ * index right after the closing delimiter.
+ */
+const readDelimitedString = (
+  text: string,
+  index: number
+): { content: ContentRange; end: number } => {
+  const delimiter = text[index];
+  let i = index + 1;
+
+  while (i < text.length && text[i] !== delimiter) {
+    i += text[i] === "\\" ? 2 : 1;
+  }
+
+  return {
+    content: { start: index + 1, end: Math.min(i, text.length) },
+    end: Math.min(i + 1, text.length)
+  };
+};
+
+/**
+ * Reads a Reason quoted string, like {|...|} or {js|...|js}. Returns null if
+ * there's no quoted string at index.
+ */
+const readQuotedString = (
+  text: string,
+  index: number
+): { content: ContentRange; end: number } | null => {
+  const open = matchAt(quotedStringOpenRegexp, text, index);
+
+  if (!open) {
+    return null;
+  }
+
+  const contentStart = index + open[0].length;
+  const closing = `|${open[1]}}`;
+  const contentEnd = text.indexOf(closing, contentStart);
+
+  return contentEnd === -1
+    ? { content: { start: contentStart, end: text.length }, end: text.length }
+    : {
+        content: { start: contentStart, end: contentEnd },
+        end: contentEnd + closing.length
+      };
+};
+
+/**
+ * Skips a string or char literal starting at index, returning the index
+ * right after it, or null if there's no literal at index.
+ */
+const skipLiteral = (
+  text: string,
+  index: number,
+  syntax: Syntax
+): number | null => {
+  const char = text[index];
+
+  if (char === '"') {
+    return readDelimitedString(text, index).end;
+  }
+
+  if (syntax === "ReScript" && char === "`") {
+    return readDelimitedString(text, index).end;
+  }
+
+  if (syntax === "Reason" && char === "{") {
+    const quotedString = readQuotedString(text, index);
+    return quotedString ? quotedString.end : null;
+  }
+
+  // A ' right after an identifier is part of that identifier, like a'
+  if (
+    char === "'" &&
+    (index === 0 || !identifierCharRegexp.test(text[index - 1]))
+  ) {
+    const charLiteral = matchAt(charLiteralRegexp, text, index);
+    return charLiteral ? index + charLiteral[0].length : null;
+  }
+
+  return null;
+};
+
+/**
+ * Reads the GraphQL passed to an extension node starting at index, like
+ * [%relay.query {| ... |}] or %graphql(` ... `). Returns null if there's
+ * no extension node at index.
+ */
+const readExtensionNode = (
+  text: string,
+  index: number,
+  syntax: Syntax
+): { name: string; content: ContentRange | null; end: number } | null => {
+  const node = matchAt(
+    syntax === "Reason"
+      ? reasonExtensionNodeRegexp
+      : rescriptExtensionNodeRegexp,
+    text,
+    index
+  );
+
+  if (!node) {
+    return null;
+  }
+
+  const payloadStart = skipWhitespaceAndComments(text, index + node[0].length);
+
+  const payload =
+    syntax === "Reason"
+      ? readQuotedString(text, payloadStart)
+      : text[payloadStart] === "`"
+      ? readDelimitedString(text, payloadStart)
+      : null;
+
+  return {
+    name: node[1],
+    ...(payload || { content: null, end: payloadStart })
+  };
+};
+
+/**
+ * A small scanner for Reason and ReScript source. It only understands enough
+ * of each language to skip comments and literals, so that it finds exactly
+ * the GraphQL in each extension node, and nothing that just looks like one.
+ */
+export const findExtensionNodeContents = (
+  text: string,
+  syntax: Syntax
+): Array<ExtensionNodeContent> => {
+  const ranges: Array<ExtensionNodeContent> = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const extensionNode = readExtensionNode(text, i, syntax);
+
+    if (extensionNode) {
+      if (extensionNode.content) {
+        ranges.push({
+          ...extensionNode.content,
+          extensionNode: extensionNode.name
+        });
+      }
+
+      i = extensionNode.end;
+      continue;
+    }
+
+    i = skipComment(text, i) || skipLiteral(text, i, syntax) || i + 1;
+  }
+
+  return ranges;
+};
+
+const makeExtractTagsFromExtensionNodes = (
+  syntax: Syntax
+): ((text: string) => Array<GraphQLSourceFromTag>) => (
+  text: string
+): Array<GraphQLSourceFromTag> => {
+  const locator = getLocator(text);
+
+  return findExtensionNodeContents(text, syntax).map(range => {
+    const start = locator(range.start);
+    const end = locator(range.end);
+
+    return {
+      type: "TAG",
+      content: text.slice(range.start, range.end),
+      extensionNode: range.extensionNode,
+      start: {
+        line: start.line,
+        character: start.column
+      },
+      end: {
+        line: end.line,
+        character: end.column
+      }
+    };
+  });
+};
+
+const extractGraphQLSourceFromReason = makeExtractTagsFromExtensionNodes(
+  "Reason"
+);
+
+const extractGraphQLSourceFromReScript = makeExtractTagsFromExtensionNodes(
+  "ReScript"
 );
 
 export function extractGraphQLSources(
@@ -72,7 +330,36 @@ export function extractGraphQLSources(
       return extractGraphQLSourceFromJs(document);
     case "reason":
       return extractGraphQLSourceFromReason(document);
+    case "rescript":
+      return extractGraphQLSourceFromReScript(document);
     default:
       return null;
   }
 }
+
+export interface ParsedGraphQLSource {
+  source: GraphQLSource;
+  document: DocumentNode;
+}
+
+/**
+ * Extracts the GraphQL sources of the text and parses them. Sources that
+ * don't parse are skipped, since the language server reports syntax errors.
+ */
+export function parseGraphQLSources(
+  languageId: string,
+  text: string
+): ParsedGraphQLSource[] {
+  return (extractGraphQLSources(languageId, text) || []).reduce(
+    (acc: ParsedGraphQLSource[], source) => {
+      try {
+        acc.push({ source, document: parse(source.content) });
+      } catch {
+        // Syntax errors are reported by the language server
+      }
+
+      return acc;
+    },
+    []
+  );
+}
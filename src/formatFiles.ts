@@ -0,0 +1,145 @@
+import { Options } from "prettier";
+
+import { GraphQLSource } from "./extensionTypes";
+import { extractGraphQLSources } from "./findGraphQLSources";
+import {
+  formatGraphQLSource,
+  getFileLocation,
+  resolvePrettierOptions
+} from "./extensionUtils";
+
+/**
+ * Formats the GraphQL of whole files, without depending on the editor, so
+ * that the format workspace command and the command line format exactly the
+ * same way.
+ */
+
+export interface SourceEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+export interface SourceFailure {
+  source: GraphQLSource;
+  error: Error;
+}
+
+export interface FileFormattingResult {
+  edits: SourceEdit[];
+  failures: SourceFailure[];
+}
+
+/**
+ * Prettier attaches the location of syntax errors to the error it throws.
+ */
+interface FormatError extends Error {
+  loc?: {
+    start: {
+      line: number;
+      column: number;
+    };
+  };
+}
+
+function getLineOffsets(text: string): number[] {
+  return text
+    .split("\n")
+    .reduce(
+      (acc: number[], line) => [...acc, acc[acc.length - 1] + line.length + 1],
+      [0]
+    );
+}
+
+function getSourceOffsets(
+  source: GraphQLSource,
+  text: string,
+  lineOffsets: number[]
+): { start: number; end: number } {
+  switch (source.type) {
+    case "TAG":
+      return {
+        start: lineOffsets[source.start.line] + source.start.character,
+        end: lineOffsets[source.end.line] + source.end.character
+      };
+    case "FULL_DOCUMENT":
+      return { start: 0, end: text.length };
+  }
+}
+
+/**
+ * Produces edits formatting every GraphQL source in the text of a file, using
+ * the Prettier config that applies to the file. Empty tags are left alone.
+ */
+export async function formatFileText(
+  filePath: string,
+  languageId: string,
+  text: string,
+  options?: Options
+): Promise<FileFormattingResult> {
+  const result: FileFormattingResult = { edits: [], failures: [] };
+  const sources = extractGraphQLSources(languageId, text);
+
+  if (!sources) {
+    return result;
+  }
+
+  const prettierOptions = options || (await resolvePrettierOptions(filePath));
+  const lineOffsets = getLineOffsets(text);
+
+  sources.forEach(source => {
+    if (source.type === "TAG" && /^[\s]*$/.test(source.content)) {
+      return;
+    }
+
+    try {
+      const newText = formatGraphQLSource(source, prettierOptions);
+
+      if (newText !== source.content) {
+        result.edits.push({
+          ...getSourceOffsets(source, text, lineOffsets),
+          newText
+        });
+      }
+    } catch (e) {
+      result.failures.push({
+        source,
+        error: e instanceof Error ? e : new Error(String(e))
+      });
+    }
+  });
+
+  return result;
+}
+
+export function applySourceEdits(text: string, edits: SourceEdit[]): string {
+  return edits
+    .slice()
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (acc, edit) =>
+        acc.slice(0, edit.start) + edit.newText + acc.slice(edit.end),
+      text
+    );
+}
+
+/**
+ * The 1-based location of a formatting failure in its file.
+ */
+export function getFailureLocation(
+  failure: SourceFailure
+): { line: number; column: number } {
+  const error: FormatError = failure.error;
+  return getFileLocation(
+    failure.source,
+    error.loc ? error.loc.start : { line: 1, column: 1 }
+  );
+}
+
+/**
+ * Prettier's messages include the location and a code frame, which are
+ * reported separately.
+ */
+export function getErrorMessage(error: Error): string {
+  return error.message.split("\n")[0].replace(/\s*\(\d+:\d+\)$/, "");
+}
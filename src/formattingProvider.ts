@@ -0,0 +1,431 @@
+import {
+  languages,
+  window,
+  workspace,
+  Diagnostic,
+  DiagnosticCollection,
+  DiagnosticSeverity,
+  ExtensionContext,
+  FormattingOptions,
+  Position,
+  Range,
+  TextDocument,
+  TextDocumentChangeEvent,
+  TextDocumentContentChangeEvent,
+  TextEdit,
+  TextEditorEdit,
+  WorkspaceEdit
+} from "vscode";
+import { Options } from "prettier";
+
+import { GraphQLSource } from "./extensionTypes";
+import { extractGraphQLSources } from "./findGraphQLSources";
+import {
+  findModuleName,
+  formatGraphQLSource,
+  getLanguageIdForFile,
+  graphQLFilesGlob,
+  makeTextPositions,
+  resolvePrettierOptions
+} from "./extensionUtils";
+import {
+  formatFileText,
+  getErrorMessage,
+  getFailureLocation,
+  SourceFailure
+} from "./formatFiles";
+import { readWorkspaceFile } from "./workspaceIndex";
+
+const formattingSelector = [
+  { scheme: "file", language: "graphql" },
+  { scheme: "file", language: "reason" },
+  { scheme: "file", language: "rescript" }
+];
+
+interface FormattingResult {
+  edits: TextEdit[];
+  failures: SourceFailure[];
+  hasEmptyBlocks: boolean;
+}
+
+function getSourceRange(document: TextDocument, source: GraphQLSource): Range {
+  switch (source.type) {
+    case "TAG":
+      return new Range(
+        new Position(source.start.line, source.start.character),
+        new Position(source.end.line, source.end.character)
+      );
+    case "FULL_DOCUMENT":
+      return document.validateRange(
+        new Range(new Position(0, 0), new Position(document.lineCount + 1, 0))
+      );
+  }
+}
+
+/**
+ * The Prettier config of the project takes precedence over the editor's
+ * formatting options.
+ */
+async function getPrettierOptions(
+  document: TextDocument,
+  formattingOptions?: FormattingOptions
+): Promise<Options> {
+  const editorOptions: Options = formattingOptions
+    ? {
+        tabWidth: formattingOptions.tabSize,
+        useTabs: !formattingOptions.insertSpaces
+      }
+    : {};
+
+  try {
+    return {
+      ...editorOptions,
+      ...(await resolvePrettierOptions(document.fileName))
+    };
+  } catch (e) {
+    window.showErrorMessage(
+      `Could not read Prettier config: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+
+    return editorOptions;
+  }
+}
+
+/**
+ * Produces edits formatting the GraphQL sources in the document. If a range
+ * is provided, only the sources touching that range are formatted. A GraphQL
+ * document is a single source, so it's always formatted as a whole.
+ */
+export async function getFormattingEdits(
+  document: TextDocument,
+  range: Range | null,
+  formattingOptions?: FormattingOptions
+): Promise<FormattingResult> {
+  const result: FormattingResult = {
+    edits: [],
+    failures: [],
+    hasEmptyBlocks: false
+  };
+
+  const sources = extractGraphQLSources(
+    document.languageId,
+    document.getText()
+  );
+
+  if (!sources) {
+    return result;
+  }
+
+  const options = await getPrettierOptions(document, formattingOptions);
+
+  sources.forEach((source: GraphQLSource) => {
+    const sourceRange = getSourceRange(document, source);
+
+    if (range && !range.intersection(sourceRange)) {
+      return;
+    }
+
+    if (source.type === "TAG" && /^[\s]*$/.test(source.content)) {
+      result.hasEmptyBlocks = true;
+      return;
+    }
+
+    try {
+      const newContent = formatGraphQLSource(source, options);
+
+      if (newContent !== source.content) {
+        result.edits.push(TextEdit.replace(sourceRange, newContent));
+      }
+    } catch (e) {
+      result.failures.push({
+        source,
+        error: e instanceof Error ? e : new Error(String(e))
+      });
+    }
+  });
+
+  return result;
+}
+
+let formatDiagnostics: DiagnosticCollection | null = null;
+
+/**
+ * Maps the location of a syntax error, which is relative to the source, back
+ * to a position in the document.
+ */
+function getErrorPosition(failure: SourceFailure): Position {
+  const { line, column } = getFailureLocation(failure);
+  return new Position(line - 1, column - 1);
+}
+
+function makeDiagnostic(
+  document: TextDocument,
+  failure: SourceFailure
+): Diagnostic {
+  const position = document.validatePosition(getErrorPosition(failure));
+
+  const diagnostic = new Diagnostic(
+    document.getWordRangeAtPosition(position) ||
+      document.validateRange(new Range(position, position.translate(0, 1))),
+    getErrorMessage(failure.error),
+    DiagnosticSeverity.Error
+  );
+
+  diagnostic.source = "GraphQL formatting";
+  return diagnostic;
+}
+
+function movePosition(
+  position: Position,
+  change: TextDocumentContentChangeEvent
+): Position {
+  const { start, end } = change.range;
+  const lines = change.text.split("\n");
+  const lineDelta = lines.length - 1 - (end.line - start.line);
+
+  if (position.line !== end.line) {
+    return position.translate(lineDelta, 0);
+  }
+
+  const lastLineStart = lines.length === 1 ? start.character : 0;
+
+  return new Position(
+    position.line + lineDelta,
+    lastLineStart +
+      lines[lines.length - 1].length +
+      position.character -
+      end.character
+  );
+}
+
+/**
+ * Moves diagnostics along with changes to the document, including the
+ * formatting edits themselves. Diagnostics touched by a change are dropped,
+ * since the change might have fixed the error.
+ */
+function moveDiagnostics(
+  diagnostics: ReadonlyArray<Diagnostic>,
+  changes: ReadonlyArray<TextDocumentContentChangeEvent>
+): Diagnostic[] {
+  return changes.reduce((acc: Diagnostic[], change) => {
+    return acc.reduce((moved: Diagnostic[], diagnostic) => {
+      if (diagnostic.range.end.isBefore(change.range.start)) {
+        moved.push(diagnostic);
+      } else if (change.range.end.isBefore(diagnostic.range.start)) {
+        diagnostic.range = new Range(
+          movePosition(diagnostic.range.start, change),
+          movePosition(diagnostic.range.end, change)
+        );
+        moved.push(diagnostic);
+      }
+
+      return moved;
+    }, []);
+  }, diagnostics.slice());
+}
+
+/**
+ * Reports formatting failures as diagnostics on the document, replacing the
+ * previous diagnostics within the formatted range, and notifies about which
+ * modules couldn't be formatted.
+ */
+function reportFailures(
+  document: TextDocument,
+  range: Range | null,
+  failures: SourceFailure[]
+) {
+  if (formatDiagnostics) {
+    const kept = (formatDiagnostics.get(document.uri) || []).filter(
+      diagnostic => range && !range.intersection(diagnostic.range)
+    );
+
+    formatDiagnostics.set(document.uri, [
+      ...kept,
+      ...failures.map(failure => makeDiagnostic(document, failure))
+    ]);
+  }
+
+  if (failures.length === 0) {
+    return;
+  }
+
+  const names = failures.map(failure => {
+    const moduleName =
+      failure.source.type === "TAG"
+        ? findModuleName(
+            document.getText(),
+            document.offsetAt(
+              new Position(
+                failure.source.start.line,
+                failure.source.start.character
+              )
+            )
+          )
+        : null;
+
+    return moduleName ? `'${moduleName}'` : "document";
+  });
+
+  window.showWarningMessage(
+    failures.length === 1
+      ? `Could not format GraphQL operation in ${names[0]}: ${getErrorMessage(
+          failures[0].error
+        )}`
+      : `Could not format GraphQL operations in ${names.join(
+          ", "
+        )}. See the problems panel for details.`
+  );
+}
+
+export async function formatDocument() {
+  const textEditor = window.activeTextEditor;
+
+  if (!textEditor) {
+    window.showErrorMessage("Missing active text editor.");
+    return;
+  }
+
+  const { edits, failures, hasEmptyBlocks } = await getFormattingEdits(
+    textEditor.document,
+    null
+  );
+
+  if (hasEmptyBlocks) {
+    window.showInformationMessage("Cannot format an empty code block.");
+  }
+
+  // Reported before editing, so the diagnostics move along with the edits
+  reportFailures(textEditor.document, null, failures);
+
+  await textEditor.edit((editBuilder: TextEditorEdit) => {
+    edits.forEach(edit => editBuilder.replace(edit.range, edit.newText));
+  });
+}
+
+/**
+ * Formats the GraphQL in every Reason, ReScript and GraphQL file of the
+ * workspace, as a single edit that can be undone in one go.
+ */
+export async function formatWorkspace() {
+  const uris = await workspace.findFiles(
+    graphQLFilesGlob,
+    "**/node_modules/**"
+  );
+
+  const workspaceEdit = new WorkspaceEdit();
+  const failedFiles: string[] = [];
+  let formattedFiles = 0;
+
+  for (const uri of uris) {
+    const languageId = getLanguageIdForFile(uri.fsPath);
+
+    if (!languageId) {
+      continue;
+    }
+
+    const text = readWorkspaceFile(uri);
+    const { edits, failures } = await formatFileText(
+      uri.fsPath,
+      languageId,
+      text
+    );
+
+    const toPosition = makeTextPositions(text);
+
+    edits.forEach(edit => {
+      const start = toPosition(edit.start);
+      const end = toPosition(edit.end);
+
+      workspaceEdit.replace(
+        uri,
+        new Range(start.line, start.character, end.line, end.character),
+        edit.newText
+      );
+    });
+
+    if (edits.length > 0) {
+      formattedFiles++;
+    }
+
+    if (failures.length > 0) {
+      failedFiles.push(workspace.asRelativePath(uri));
+    }
+  }
+
+  if (formattedFiles > 0) {
+    await workspace.applyEdit(workspaceEdit);
+  }
+
+  if (failedFiles.length > 0) {
+    window.showWarningMessage(
+      `Could not format the GraphQL in ${failedFiles.join(
+        ", "
+      )}. Format the files one by one to see the errors.`
+    );
+  } else {
+    window.showInformationMessage(
+      formattedFiles > 0
+        ? `Formatted GraphQL in ${formattedFiles} file${
+            formattedFiles === 1 ? "" : "s"
+          }.`
+        : "All GraphQL in the workspace is already formatted."
+    );
+  }
+}
+
+export function initFormattingProviders(context: ExtensionContext): void {
+  formatDiagnostics = languages.createDiagnosticCollection(
+    "graphql-formatting"
+  );
+
+  const clearDiagnostics = (document: TextDocument) => {
+    if (formatDiagnostics) {
+      formatDiagnostics.delete(document.uri);
+    }
+  };
+
+  const updateDiagnostics = (e: TextDocumentChangeEvent) => {
+    const diagnostics = formatDiagnostics
+      ? formatDiagnostics.get(e.document.uri)
+      : null;
+
+    if (formatDiagnostics && diagnostics && diagnostics.length > 0) {
+      formatDiagnostics.set(
+        e.document.uri,
+        moveDiagnostics(diagnostics, e.contentChanges)
+      );
+    }
+  };
+
+  context.subscriptions.push(
+    formatDiagnostics,
+    workspace.onDidChangeTextDocument(updateDiagnostics),
+    workspace.onDidCloseTextDocument(clearDiagnostics),
+    languages.registerDocumentFormattingEditProvider(formattingSelector, {
+      async provideDocumentFormattingEdits(document, options) {
+        const { edits, failures } = await getFormattingEdits(
+          document,
+          null,
+          options
+        );
+
+        reportFailures(document, null, failures);
+        return edits;
+      }
+    }),
+    languages.registerDocumentRangeFormattingEditProvider(formattingSelector, {
+      async provideDocumentRangeFormattingEdits(document, range, options) {
+        const { edits, failures } = await getFormattingEdits(
+          document,
+          range,
+          options
+        );
+
+        reportFailures(document, range, failures);
+        return edits;
+      }
+    })
+  );
+}
@@ -0,0 +1,209 @@
+import {
+  ASTNode,
+  DefinitionNode,
+  DocumentNode,
+  FragmentDefinitionNode,
+  FragmentSpreadNode,
+  Kind,
+  ValueNode,
+  print,
+  visit
+} from "graphql";
+
+import { makeUniqueName } from "./extensionUtils";
+import { findDirective, getArgumentDefinitions } from "./relayValidation";
+
+/**
+ * Relay fragments can define arguments through @argumentDefinitions, which
+ * spreads pass through @arguments. Servers know neither, so documents sent
+ * to them get the arguments applied the way the Relay compiler does: each
+ * fragment is copied for every set of values it's spread with, and the
+ * variables of its arguments are replaced by those values, or by their
+ * defaults.
+ */
+
+const argumentDirectiveNames = ["arguments", "argumentDefinitions"];
+
+/**
+ * The values of the arguments in scope. Arguments that are neither passed
+ * nor have a default are null, and are left out wherever they're used.
+ */
+type ArgumentValues = Map<string, ValueNode | null>;
+
+interface QueuedFragment {
+  fragment: FragmentDefinitionNode;
+  name: string;
+  values: ArgumentValues;
+}
+
+export interface AppliedFragmentArguments {
+  /**
+   * The operations of the document, followed by a copy of each fragment for
+   * every set of arguments it's spread with.
+   */
+  document: DocumentNode;
+  /**
+   * Required arguments that aren't passed, one message each.
+   */
+  problems: string[];
+}
+
+const nullValue: ValueNode = { kind: Kind.NULL };
+
+const isUnset = (value: ValueNode, values: ArgumentValues) =>
+  value.kind === Kind.VARIABLE && values.get(value.name.value) === null;
+
+/**
+ * Replaces the variables of the arguments in scope by their values, leaving
+ * out the arguments and input fields that are passed an unset one.
+ */
+function substituteVariables<T extends ASTNode>(
+  node: T,
+  values: ArgumentValues
+): T {
+  return visit(node, {
+    Argument(arg) {
+      return isUnset(arg.value, values) ? null : undefined;
+    },
+    ObjectField(field) {
+      return isUnset(field.value, values) ? null : undefined;
+    },
+    Variable: {
+      // Values are put in on leave so that they're not substituted again
+      leave(variable) {
+        const name = variable.name.value;
+        return values.has(name) ? values.get(name) || nullValue : undefined;
+      }
+    }
+  });
+}
+
+export function applyFragmentArguments(
+  document: DocumentNode
+): AppliedFragmentArguments {
+  const fragments: Map<string, FragmentDefinitionNode> = new Map();
+  const takenNames: string[] = [];
+
+  document.definitions.forEach(definition => {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+
+    if (
+      (definition.kind === Kind.FRAGMENT_DEFINITION ||
+        definition.kind === Kind.OPERATION_DEFINITION) &&
+      definition.name
+    ) {
+      takenNames.push(definition.name.value);
+    }
+  });
+
+  const problems: Set<string> = new Set();
+  const variantNames: Map<string, string> = new Map();
+  const queue: QueuedFragment[] = [];
+
+  /**
+   * The name of the copy of the fragment for the values. The first copy of
+   * a fragment keeps its name.
+   */
+  const getVariantName = (
+    fragment: FragmentDefinitionNode,
+    values: ArgumentValues
+  ): string => {
+    const fragmentName = fragment.name.value;
+    const key = `${fragmentName}(${Array.from(values.entries())
+      .map(([name, value]) => `${name}: ${value ? print(value) : "unset"}`)
+      .join(", ")})`;
+    const existing = variantNames.get(key);
+
+    if (existing) {
+      return existing;
+    }
+
+    const isFirst = !queue.some(queued => queued.fragment === fragment);
+    const name = isFirst
+      ? fragmentName
+      : makeUniqueName(fragmentName, takenNames);
+
+    if (!isFirst) {
+      takenNames.push(name);
+    }
+
+    variantNames.set(key, name);
+    queue.push({ fragment, name, values });
+    return name;
+  };
+
+  const applySpread = (
+    spread: FragmentSpreadNode,
+    scope: ArgumentValues
+  ): FragmentSpreadNode | undefined => {
+    const fragment = fragments.get(spread.name.value);
+
+    if (!fragment) {
+      return undefined;
+    }
+
+    const argumentsDirective = findDirective(spread, "arguments");
+    const passed = argumentsDirective ? argumentsDirective.arguments || [] : [];
+    const values: ArgumentValues = new Map();
+
+    getArgumentDefinitions(fragment).forEach(definition => {
+      const arg = passed.find(arg => arg.name.value === definition.name);
+
+      if (arg && !isUnset(arg.value, scope)) {
+        values.set(definition.name, substituteVariables(arg.value, scope));
+      } else if (definition.defaultValue) {
+        values.set(definition.name, definition.defaultValue);
+      } else {
+        values.set(definition.name, null);
+
+        if (definition.required) {
+          problems.add(
+            `Fragment ${fragment.name.value} requires the argument ${definition.name}, which isn't passed through @arguments.`
+          );
+        }
+      }
+    });
+
+    return {
+      ...spread,
+      name: { ...spread.name, value: getVariantName(fragment, values) }
+    };
+  };
+
+  const apply = <T extends DefinitionNode>(
+    definition: T,
+    scope: ArgumentValues
+  ): T =>
+    substituteVariables(
+      visit(definition, {
+        Directive(node) {
+          return argumentDirectiveNames.includes(node.name.value)
+            ? null
+            : undefined;
+        },
+        FragmentSpread(node) {
+          return applySpread(node, scope);
+        }
+      }),
+      scope
+    );
+
+  const definitions: DefinitionNode[] = document.definitions
+    .filter(definition => definition.kind === Kind.OPERATION_DEFINITION)
+    .map(operation => apply(operation, new Map()));
+
+  // Fragments found while applying others are queued, and applied in turn
+  for (let i = 0; i < queue.length; i++) {
+    const { fragment, name, values } = queue[i];
+    const applied = apply(fragment, values);
+
+    definitions.push({ ...applied, name: { ...applied.name, value: name } });
+  }
+
+  return {
+    document: { ...document, definitions },
+    problems: Array.from(problems)
+  };
+}
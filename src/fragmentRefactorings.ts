@@ -0,0 +1,467 @@
+import {
+  commands,
+  languages,
+  window,
+  workspace,
+  CodeAction,
+  CodeActionKind,
+  CodeActionProvider,
+  ExtensionContext,
+  Position,
+  Range,
+  TextDocument,
+  Uri,
+  WorkspaceEdit
+} from "vscode";
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  FragmentSpreadNode,
+  GraphQLSchema,
+  Kind,
+  TypeInfo,
+  parse,
+  print,
+  visit,
+  visitWithTypeInfo
+} from "graphql";
+
+import { Framework, GraphQLSourceFromTag } from "./extensionTypes";
+import { getExtensionNodeName, pickTemplate } from "./addGraphQLComponent";
+import {
+  getFileModuleName,
+  getSyntax,
+  makeUniqueName,
+  prettify,
+  uncapitalize
+} from "./extensionUtils";
+import { parseGraphQLSources } from "./findGraphQLSources";
+import { getFrameworkForExtensionNode, isSpreadOf } from "./frameworks";
+import { findSchemaForFile, getSchemaForDocument } from "./schemaService";
+import { renderTemplate } from "./templates";
+import { getDefinitions, getUniqueDefinitionName } from "./workspaceIndex";
+
+/**
+ * Refactorings of the selection sets in tags: moving selected fields into a
+ * new fragment module, and the reverse, replacing a fragment spread with the
+ * fields of the fragment.
+ */
+
+const extractCommand = "vscode-reasonml-graphql.extract-fragment";
+
+interface TagSource {
+  source: GraphQLSourceFromTag;
+  document: DocumentNode;
+  framework: Framework;
+  /**
+   * The offset of the GraphQL of the tag in the text document.
+   */
+  offset: number;
+}
+
+interface SelectionsToExtract {
+  tag: TagSource;
+  /**
+   * The type of the selection set the selections are in.
+   */
+  typeName: string;
+  /**
+   * The offsets of the selections in the GraphQL of the tag.
+   */
+  start: number;
+  end: number;
+}
+
+const selector = [
+  { scheme: "file", language: "reason" },
+  { scheme: "file", language: "rescript" }
+];
+
+function findTagSource(document: TextDocument, range: Range): TagSource | null {
+  const parsedSources = parseGraphQLSources(
+    document.languageId,
+    document.getText()
+  );
+
+  for (const { source, document: tagDocument } of parsedSources) {
+    if (source.type !== "TAG" || !source.extensionNode) {
+      continue;
+    }
+
+    const framework = getFrameworkForExtensionNode(source.extensionNode);
+    const sourceRange = new Range(
+      new Position(source.start.line, source.start.character),
+      new Position(source.end.line, source.end.character)
+    );
+
+    if (!framework || !sourceRange.contains(range)) {
+      continue;
+    }
+
+    return {
+      source,
+      document: tagDocument,
+      framework,
+      offset: document.offsetAt(sourceRange.start)
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Finds the selections of the innermost selection set that the range covers
+ * completely. Selections the range only partly covers make the range
+ * ambiguous, so nothing is extracted then.
+ */
+function findSelectionsToExtract(
+  schema: GraphQLSchema,
+  tag: TagSource,
+  start: number,
+  end: number
+): SelectionsToExtract | null {
+  const typeInfo = new TypeInfo(schema);
+  let found: SelectionsToExtract | null = null;
+
+  visit(
+    tag.document,
+    visitWithTypeInfo(typeInfo, {
+      SelectionSet(node) {
+        const parentType = typeInfo.getParentType();
+        const overlapping = node.selections.filter(
+          selection =>
+            selection.loc &&
+            selection.loc.start < end &&
+            selection.loc.end > start
+        );
+        const selections = overlapping.filter(
+          selection =>
+            selection.loc &&
+            selection.loc.start >= start &&
+            selection.loc.end <= end
+        );
+
+        if (
+          !parentType ||
+          selections.length === 0 ||
+          selections.length !== overlapping.length
+        ) {
+          return;
+        }
+
+        const first = selections[0].loc;
+        const last = selections[selections.length - 1].loc;
+
+        // Selections inside the ones found are visited later, and win
+        found =
+          first && last
+            ? {
+                tag,
+                typeName: parentType.name,
+                start: first.start,
+                end: last.end
+              }
+            : null;
+      }
+    })
+  );
+
+  return found;
+}
+
+async function extractFragment(uri: Uri, start: number, end: number) {
+  const document = await workspace.openTextDocument(uri);
+  const syntax = getSyntax(document.languageId);
+  const schema = await getSchemaForDocument(document);
+  const range = new Range(document.positionAt(start), document.positionAt(end));
+  const tag = findTagSource(document, range);
+
+  const toExtract =
+    syntax && schema && tag
+      ? findSelectionsToExtract(
+          schema,
+          tag,
+          start - tag.offset,
+          end - tag.offset
+        )
+      : null;
+
+  if (!syntax || !toExtract) {
+    window.showErrorMessage(
+      "Select whole fields of a selection set in a tag to extract them."
+    );
+    return;
+  }
+
+  const text = document.getText();
+  const moduleNames = (
+    text.match(/module\s+[A-Z][\w']*/g) || []
+  ).map(declaration => declaration.replace(/^module\s+/, ""));
+
+  const moduleName = await window.showInputBox({
+    prompt: "Enter the name of the new fragment module",
+    value: makeUniqueName(`${toExtract.typeName}Fragment`, moduleNames),
+    validateInput: (value: string) =>
+      !/^[A-Z][\w']*$/.test(value)
+        ? "Module names start with an uppercase letter."
+        : moduleNames.includes(value)
+        ? `Module ${value} already exists in the document.`
+        : null
+  });
+
+  if (!moduleName) {
+    return;
+  }
+
+  const { framework, source } = toExtract.tag;
+  const fileModule = getFileModuleName(document.fileName);
+  const propName = uncapitalize(
+    moduleName.replace(/Fragment$/, "") || moduleName
+  );
+  const fragmentName = await getUniqueDefinitionName(
+    `${fileModule}_${propName}`
+  );
+
+  const template = await pickTemplate(
+    workspace.rootPath || "",
+    framework,
+    "Fragment",
+    syntax
+  );
+
+  if (!template) {
+    return;
+  }
+
+  const selection = prettify(
+    `{\n${source.content.slice(toExtract.start, toExtract.end)}\n}`
+  );
+  const operation = `fragment ${fragmentName} on ${toExtract.typeName} ${selection}`;
+  const rendered = renderTemplate(template, {
+    moduleName,
+    fileModule,
+    extensionNode: getExtensionNodeName(framework, "Fragment", syntax),
+    operationType: "fragment",
+    operationName: fragmentName,
+    type: toExtract.typeName,
+    field: "",
+    variablesDefinition: "",
+    arguments: "",
+    selection,
+    operation,
+    component: ""
+  });
+
+  // The new module goes right before the module the tag belongs to
+  const tagOffset = toExtract.tag.offset;
+  const declarations = text.slice(0, tagOffset).match(/module\s+[A-Z]/g);
+  const declarationOffset = declarations
+    ? text
+        .slice(0, tagOffset)
+        .lastIndexOf(declarations[declarations.length - 1])
+    : tagOffset;
+  const insertPosition = document.positionAt(declarationOffset);
+
+  const edit = new WorkspaceEdit();
+
+  edit.insert(uri, insertPosition, `${rendered.text}\n\n`);
+  edit.replace(
+    uri,
+    new Range(
+      document.positionAt(tagOffset + toExtract.start),
+      document.positionAt(tagOffset + toExtract.end)
+    ),
+    // graphql_ppx spreads fragments by their module
+    `...${framework === "graphql_ppx" ? moduleName : fragmentName}`
+  );
+
+  await workspace.applyEdit(edit);
+}
+
+/**
+ * Finds the definition of a spread fragment in the tag itself or anywhere in
+ * the workspace. graphql_ppx fragments are spread by their module name.
+ */
+async function findFragment(
+  tag: TagSource,
+  name: string
+): Promise<FragmentDefinitionNode | null> {
+  const local = tag.document.definitions.find(
+    definition =>
+      definition.kind === Kind.FRAGMENT_DEFINITION &&
+      definition.name.value === name
+  );
+
+  if (local) {
+    return local as FragmentDefinitionNode;
+  }
+
+  const [indexed] = (await getDefinitions()).filter(
+    definition => definition.kind === "fragment" && isSpreadOf(definition, name)
+  );
+
+  if (!indexed) {
+    return null;
+  }
+
+  const [definition] = parse(indexed.text).definitions;
+  return definition.kind === Kind.FRAGMENT_DEFINITION ? definition : null;
+}
+
+async function makeInlineAction(
+  document: TextDocument,
+  tag: TagSource,
+  spread: FragmentSpreadNode,
+  parentTypeName: string | null
+): Promise<CodeAction | null> {
+  const fragment = await findFragment(tag, spread.name.value);
+
+  // Fragments with arguments would need the arguments substituted
+  if (
+    !fragment ||
+    !spread.loc ||
+    (spread.directives && spread.directives.length > 0) ||
+    (fragment.directives && fragment.directives.length > 0)
+  ) {
+    return null;
+  }
+
+  const typeCondition = fragment.typeCondition.name.value;
+  const spreadStart = document.positionAt(tag.offset + spread.loc.start);
+  const [indentation] = document
+    .lineAt(spreadStart.line)
+    .text.match(/^\s*/) || [""];
+
+  const selections =
+    parentTypeName === typeCondition
+      ? fragment.selectionSet.selections.map(selection => print(selection))
+      : [
+          print({
+            kind: Kind.INLINE_FRAGMENT,
+            typeCondition: fragment.typeCondition,
+            directives: [],
+            selectionSet: fragment.selectionSet
+          })
+        ];
+
+  const action = new CodeAction(
+    `Inline fragment ${spread.name.value}`,
+    CodeActionKind.RefactorInline
+  );
+
+  action.edit = new WorkspaceEdit();
+  action.edit.replace(
+    document.uri,
+    new Range(spreadStart, document.positionAt(tag.offset + spread.loc.end)),
+    selections
+      .join("\n")
+      .split("\n")
+      .join(`\n${indentation}`)
+  );
+
+  return action;
+}
+
+async function findInlineAction(
+  document: TextDocument,
+  tag: TagSource,
+  offset: number
+): Promise<CodeAction | null> {
+  const schema = await findSchemaForFile(document.fileName);
+  const typeInfo = schema ? new TypeInfo(schema) : null;
+  let found: {
+    spread: FragmentSpreadNode;
+    parentTypeName: string | null;
+  } | null = null;
+
+  const visitor = {
+    FragmentSpread(node: FragmentSpreadNode) {
+      const parentType = typeInfo ? typeInfo.getParentType() : null;
+
+      if (node.loc && node.loc.start <= offset && offset <= node.loc.end) {
+        found = {
+          spread: node,
+          parentTypeName: parentType ? parentType.name : null
+        };
+      }
+    }
+  };
+
+  visit(
+    tag.document,
+    typeInfo ? visitWithTypeInfo(typeInfo, visitor) : visitor
+  );
+
+  if (!found) {
+    return null;
+  }
+
+  const { spread, parentTypeName } = found;
+  return makeInlineAction(document, tag, spread, parentTypeName);
+}
+
+const codeActionProvider: CodeActionProvider = {
+  async provideCodeActions(document: TextDocument, range: Range) {
+    const tag = findTagSource(document, range);
+
+    if (!tag) {
+      return [];
+    }
+
+    const actions: CodeAction[] = [];
+    // Code actions are asked for all the time, so they never ask the user
+    const schema = range.isEmpty
+      ? null
+      : await findSchemaForFile(document.fileName);
+    const toExtract = schema
+      ? findSelectionsToExtract(
+          schema,
+          tag,
+          document.offsetAt(range.start) - tag.offset,
+          document.offsetAt(range.end) - tag.offset
+        )
+      : null;
+
+    if (toExtract) {
+      const extract = new CodeAction(
+        "Extract to fragment",
+        CodeActionKind.RefactorExtract
+      );
+
+      extract.command = {
+        title: "Extract to fragment",
+        command: extractCommand,
+        arguments: [
+          document.uri,
+          document.offsetAt(range.start),
+          document.offsetAt(range.end)
+        ]
+      };
+      actions.push(extract);
+    }
+
+    const inline = await findInlineAction(
+      document,
+      tag,
+      document.offsetAt(range.start) - tag.offset
+    );
+
+    if (inline) {
+      actions.push(inline);
+    }
+
+    return actions;
+  }
+};
+
+export function initFragmentRefactorings(context: ExtensionContext): void {
+  context.subscriptions.push(
+    languages.registerCodeActionsProvider(selector, codeActionProvider, {
+      providedCodeActionKinds: [
+        CodeActionKind.RefactorExtract,
+        CodeActionKind.RefactorInline
+      ]
+    }),
+    commands.registerCommand(extractCommand, extractFragment)
+  );
+}
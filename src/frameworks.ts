@@ -0,0 +1,153 @@
+import * as path from "path";
+import { GraphQLSchema, Kind, extendSchema, parse } from "graphql";
+
+import { Framework } from "./extensionTypes";
+import { findExtensionNodeContents } from "./findGraphQLSources";
+import { graphqlPpxDirectives } from "./graphqlPpxDirectives";
+import { relayDirectives } from "./relayValidation";
+
+/**
+ * Reason and ReScript files can mix ReasonRelay and graphql_ppx, so which
+ * framework a GraphQL tag belongs to is decided per tag, from the name of
+ * its extension node.
+ */
+
+const frameworkDirectives: { [framework in Framework]: string } = {
+  ReasonRelay: relayDirectives,
+  graphql_ppx: graphqlPpxDirectives
+};
+
+export function getFrameworkForExtensionNode(
+  extensionNode: string
+): Framework | null {
+  if (extensionNode === "graphql") {
+    return "graphql_ppx";
+  }
+
+  return /^relay\b/.test(extensionNode) ? "ReasonRelay" : null;
+}
+
+/**
+ * Whether a fragment spread refers to the fragment. graphql_ppx spreads
+ * fragments by the name of the module they're defined in rather than by the
+ * name of the fragment.
+ */
+export function isSpreadOf(
+  fragment: { name: string; moduleName: string | null },
+  spreadName: string
+): boolean {
+  return fragment.name === spreadName || fragment.moduleName === spreadName;
+}
+
+/**
+ * Finds the framework of the tag with the content `query` in a file. Falls
+ * back to the framework used in the file if the tag can't be found, which is
+ * only used if the file doesn't mix frameworks.
+ */
+export function findTagFramework(
+  filePath: string,
+  text: string,
+  query: string
+): Framework | null {
+  const extension = path.extname(filePath);
+
+  if (extension !== ".re" && extension !== ".res") {
+    return null;
+  }
+
+  const tags = findExtensionNodeContents(
+    text,
+    extension === ".re" ? "Reason" : "ReScript"
+  ).map(tag => ({
+    content: text.slice(tag.start, tag.end),
+    framework: getFrameworkForExtensionNode(tag.extensionNode)
+  }));
+
+  const tag =
+    tags.find(tag => tag.content === query) ||
+    tags.find(tag => tag.content.trim() === query.trim());
+
+  if (tag) {
+    return tag.framework;
+  }
+
+  const frameworks = tags.reduce(
+    (acc: Framework[], { framework }) =>
+      framework && !acc.includes(framework) ? [...acc, framework] : acc,
+    []
+  );
+
+  return frameworks.length === 1 ? frameworks[0] : null;
+}
+
+/**
+ * The names of the directives of the framework, which only the framework
+ * itself understands. They're not sent to the server.
+ */
+export function getFrameworkDirectiveNames(framework: Framework): string[] {
+  return parse(frameworkDirectives[framework]).definitions.reduce(
+    (acc: string[], definition) =>
+      definition.kind === Kind.DIRECTIVE_DEFINITION
+        ? [...acc, definition.name.value]
+        : acc,
+    []
+  );
+}
+
+/**
+ * Adds the directives in the SDL to the schema. Directives the schema already
+ * defines are left alone, since redefining them is an error.
+ */
+export function addDirectives(
+  schema: GraphQLSchema,
+  directivesSDL: string
+): GraphQLSchema {
+  const definitions = parse(directivesSDL).definitions.filter(
+    definition =>
+      definition.kind === Kind.DIRECTIVE_DEFINITION &&
+      !schema.getDirective(definition.name.value)
+  );
+
+  return definitions.length > 0
+    ? extendSchema(schema, { kind: Kind.DOCUMENT, definitions })
+    : schema;
+}
+
+const frameworkSchemas: WeakMap<
+  GraphQLSchema,
+  Map<Framework, GraphQLSchema>
+> = new WeakMap();
+
+const schemaFrameworks: WeakMap<GraphQLSchema, Framework> = new WeakMap();
+
+/**
+ * Returns the schema with the directives of the framework added. The result
+ * is cached for as long as the schema itself is around.
+ */
+export function addFrameworkDirectives(
+  schema: GraphQLSchema,
+  framework: Framework
+): GraphQLSchema {
+  const cached = frameworkSchemas.get(schema) || new Map();
+  const extended =
+    cached.get(framework) ||
+    addDirectives(schema, frameworkDirectives[framework]);
+
+  // Always a schema of its own, so that it can be told apart from the schema
+  // of other frameworks
+  const frameworkSchema =
+    extended === schema ? new GraphQLSchema(schema.toConfig()) : extended;
+
+  cached.set(framework, frameworkSchema);
+  frameworkSchemas.set(schema, cached);
+  schemaFrameworks.set(frameworkSchema, framework);
+
+  return frameworkSchema;
+}
+
+/**
+ * Returns the framework a schema was made for by `addFrameworkDirectives`.
+ */
+export function getSchemaFramework(schema: GraphQLSchema): Framework | null {
+  return schemaFrameworks.get(schema) || null;
+}
@@ -0,0 +1,118 @@
+import * as fs from "fs";
+import * as path from "path";
+import { window, workspace, Range, Uri, WorkspaceEdit } from "vscode";
+
+import {
+  getLanguageIdForFile,
+  graphQLFilesGlob,
+  makeTextPositions
+} from "./extensionUtils";
+import {
+  collectPersistedQueries,
+  makeHashAnnotationEdits,
+  manifestFileName,
+  PersistedQueriesFile
+} from "./persistedQueries";
+import { readWorkspaceFile } from "./workspaceIndex";
+
+const writeManifest = "Write manifest";
+const writeManifestAndAnnotate = "Write manifest and annotate modules";
+
+/**
+ * Writes the manifest of persisted queries of the workspace to its root, and
+ * optionally puts the hash of each operation above its module.
+ */
+export async function generatePersistedQueries() {
+  const rootPath = workspace.rootPath;
+
+  if (!rootPath) {
+    window.showErrorMessage("Open a folder to generate persisted queries for.");
+    return;
+  }
+
+  const picked = await window.showQuickPick(
+    [writeManifest, writeManifestAndAnnotate],
+    { placeHolder: `Generate ${manifestFileName}` }
+  );
+
+  if (!picked) {
+    return;
+  }
+
+  const uris = await workspace.findFiles(
+    graphQLFilesGlob,
+    "**/node_modules/**"
+  );
+
+  const files = uris.reduce((acc: PersistedQueriesFile[], uri) => {
+    const languageId = getLanguageIdForFile(uri.fsPath);
+
+    return languageId
+      ? [
+          ...acc,
+          { filePath: uri.fsPath, languageId, text: readWorkspaceFile(uri) }
+        ]
+      : acc;
+  }, []);
+
+  let persisted;
+
+  try {
+    persisted = collectPersistedQueries(files);
+  } catch (e) {
+    window.showErrorMessage(e instanceof Error ? e.message : String(e), {
+      modal: true
+    });
+    return;
+  }
+
+  const { manifest, operations } = persisted;
+
+  // The manifest is only written once the modules are annotated, so that it
+  // never gets ahead of the hashes in them
+  if (picked === writeManifestAndAnnotate) {
+    const workspaceEdit = new WorkspaceEdit();
+
+    files.forEach(file => {
+      const toPosition = makeTextPositions(file.text);
+
+      makeHashAnnotationEdits(file, operations).forEach(edit => {
+        const start = toPosition(edit.start);
+        const end = toPosition(edit.end);
+
+        workspaceEdit.replace(
+          Uri.file(file.filePath),
+          new Range(start.line, start.character, end.line, end.character),
+          edit.newText
+        );
+      });
+    });
+
+    if (!(await workspace.applyEdit(workspaceEdit))) {
+      window.showErrorMessage(
+        `Could not annotate the modules, so ${manifestFileName} wasn't written.`
+      );
+      return;
+    }
+  }
+
+  try {
+    fs.writeFileSync(
+      path.join(rootPath, manifestFileName),
+      JSON.stringify(manifest, null, 2) + "\n"
+    );
+  } catch (e) {
+    window.showErrorMessage(
+      `Could not write ${manifestFileName}: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+    return;
+  }
+
+  window.showInformationMessage(
+    `Wrote ${operations.length} persisted quer${
+      operations.length === 1 ? "y" : "ies"
+    } to ${manifestFileName}.`
+  );
+}
@@ -0,0 +1,209 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import {
+  getGraphQLConfig,
+  GraphQLConfig,
+  GraphQLConfigData,
+  GraphQLProjectConfig
+} from "graphql-config";
+
+/**
+ * Config files are looked for in this order in the root path. Files in the
+ * legacy format are also looked for in parent and sub directories, through
+ * graphql-config itself.
+ */
+export const configFileNames = [
+  ".graphqlconfig",
+  ".graphqlconfig.yml",
+  ".graphqlconfig.yaml",
+  ".graphqlrc",
+  ".graphqlrc.json",
+  ".graphqlrc.yml",
+  ".graphqlrc.yaml",
+  "graphql.config.js",
+  "graphql.config.json",
+  "graphql.config.yml",
+  "graphql.config.yaml"
+];
+
+/**
+ * The parts of the graphql-config v3 format that we understand. A project
+ * points to its schema through `schema` rather than `schemaPath`, and that
+ * can be a list and contain globs.
+ */
+interface ConfigV3Project {
+  schema?: string | string[];
+  include?: string | string[];
+  exclude?: string | string[];
+  documents?: string | string[];
+  extensions?: { [name: string]: any };
+}
+
+interface ConfigV3 extends ConfigV3Project {
+  projects?: { [name: string]: ConfigV3Project };
+}
+
+type SchemaPointers = {
+  schema?: string | string[];
+};
+
+const toArray = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const isFilePointer = (pointer: string) => !/^https?:\/\//.test(pointer);
+const isGlob = (pointer: string) => /[*?[\]{}!]/.test(pointer);
+
+/**
+ * Translates a project in the v3 format to the format graphql-config v2
+ * understands. The schema pointers are kept in `schema`, and `schemaPath`
+ * is set when there's a single schema file, so that it can still be written
+ * to.
+ */
+function normalizeProject(
+  project: ConfigV3Project & { schemaPath?: string }
+): ConfigV3Project & { schemaPath?: string } {
+  const includes = toArray(project.include || project.documents);
+  const excludes = toArray(project.exclude);
+  const filePointers =
+    project.schema === undefined
+      ? null
+      : toArray(project.schema).filter(isFilePointer);
+
+  return {
+    ...project,
+    ...(filePointers
+      ? {
+          schema: filePointers,
+          schemaPath:
+            filePointers.length === 1 && !isGlob(filePointers[0])
+              ? filePointers[0]
+              : undefined
+        }
+      : {}),
+    ...(includes.length > 0 ? { includes } : {}),
+    ...(excludes.length > 0 ? { excludes } : {})
+  };
+}
+
+function normalizeConfig(config: ConfigV3): GraphQLConfigData {
+  const { projects, ...rootProject } = config;
+
+  return {
+    ...normalizeProject(rootProject),
+    ...(projects
+      ? {
+          projects: Object.keys(projects).reduce(
+            (acc, name) => ({
+              ...acc,
+              [name]: normalizeProject(projects[name])
+            }),
+            {}
+          )
+        }
+      : {})
+  } as GraphQLConfigData;
+}
+
+function readConfigFile(configPath: string): ConfigV3 {
+  if (configPath.endsWith(".js")) {
+    // Required fresh every time, since the config might have changed
+    delete require.cache[require.resolve(configPath)];
+    return require(configPath);
+  }
+
+  const content = fs.readFileSync(configPath, "utf8");
+
+  return configPath.endsWith(".json") || configPath.endsWith(".graphqlconfig")
+    ? JSON.parse(content)
+    : // YAML is a superset of JSON, so this covers .graphqlrc in both formats
+      yaml.safeLoad(content);
+}
+
+export function findConfigFile(rootPath: string): string | null {
+  const fileName = configFileNames.find(name =>
+    fs.existsSync(path.join(rootPath, name))
+  );
+
+  return fileName ? path.join(rootPath, fileName) : null;
+}
+
+/**
+ * Loads the graphql-config of the root path, in either the legacy
+ * .graphqlconfig format or any of the v3 formats. Throws if there's no
+ * config, just like graphql-config does.
+ */
+export function loadGraphQLConfig(rootPath: string): GraphQLConfig {
+  const configPath = findConfigFile(rootPath);
+
+  if (!configPath) {
+    return getGraphQLConfig(rootPath);
+  }
+
+  try {
+    return new GraphQLConfig(
+      normalizeConfig(readConfigFile(configPath)),
+      configPath
+    );
+  } catch (e) {
+    e.message = `Parsing ${configPath} failed.\n${e.message}`;
+    throw e;
+  }
+}
+
+/**
+ * Returns the absolute paths or globs pointing to the schema of a project.
+ */
+export function getSchemaPointers(
+  projectConfig: GraphQLProjectConfig
+): string[] {
+  const { schema } = projectConfig.config as SchemaPointers;
+
+  const pointers =
+    schema !== undefined
+      ? toArray(schema)
+      : projectConfig.config.schemaPath
+      ? [projectConfig.config.schemaPath]
+      : [];
+
+  return pointers.map(pointer => projectConfig.resolveConfigPath(pointer));
+}
+
+/**
+ * Returns all projects defined in the graphql-config of the root path, keyed
+ * on project name. Returns null if there's no config, or if the config
+ * doesn't define any projects.
+ */
+export function getProjects(
+  rootPath: string
+): { [name: string]: GraphQLProjectConfig } | null {
+  try {
+    return loadGraphQLConfig(rootPath).getProjects() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the names of the projects a file could belong to. That's every
+ * project whose includes/excludes match the file, or every project if none
+ * of them match, since a multi project config can't be used without picking
+ * a project.
+ */
+export function getProjectNamesForFile(
+  rootPath: string,
+  filePath: string
+): string[] {
+  const projects = getProjects(rootPath);
+
+  if (!projects) {
+    return [];
+  }
+
+  const projectNames = Object.keys(projects);
+  const matching = projectNames.filter(name =>
+    projects[name].includesFile(filePath)
+  );
+
+  return matching.length > 0 ? matching : projectNames;
+}
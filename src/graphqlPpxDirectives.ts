@@ -0,0 +1,77 @@
+/**
+ * Definitions of the directives graphql_ppx understands, both the current
+ * `@ppx` ones and the `@bs` ones of earlier versions.
+ */
+export const graphqlPpxDirectives = `
+"""
+Decodes the selection into a record rather than an object. The record type must be defined with the exact same fields.
+"""
+directive @bsRecord on FIELD | FRAGMENT_DEFINITION | FRAGMENT_SPREAD
+
+"""
+Passes the decoded value through the function \`fn\`, like \`@bsDecoder(fn: "Js.Json.decodeNumber")\`.
+"""
+directive @bsDecoder(fn: String!) on FIELD
+
+"""
+Decodes an object where exactly one field is set into a polymorphic variant.
+"""
+directive @bsVariant on FIELD
+
+"""
+Names the field a fragment spread is decoded into.
+"""
+directive @bsField(name: String!) on FRAGMENT_SPREAD
+
+"""
+Omits the \`FutureAddedValue\` case from the decoded enum or union.
+"""
+directive @bsOmitFutureValue on FIELD
+
+"""
+Decodes the selection into the type \`type\`, like \`@ppxAs(type: "user")\`.
+"""
+directive @ppxAs(type: String!) on FIELD | FRAGMENT_DEFINITION | QUERY | MUTATION | SUBSCRIPTION
+
+"""
+Parses and serializes the value through the module \`module\`, which must define \`parse\` and \`serialize\`.
+"""
+directive @ppxCustom(module: String) on FIELD | FRAGMENT_DEFINITION | VARIABLE_DEFINITION
+
+"""
+Same as \`@bsDecoder\`, but passes the decoded value through the function \`parse\` of the module \`module\`.
+"""
+directive @ppxDecoder(module: String!) on FIELD
+
+"""
+Decodes an object where exactly one field is set into a polymorphic variant.
+"""
+directive @ppxVariant on FIELD
+
+"""
+Names the field a fragment spread is decoded into.
+"""
+directive @ppxField(name: String!) on FRAGMENT_SPREAD
+
+"""
+Omits the \`FutureAddedValue\` case from the decoded enum or union.
+"""
+directive @ppxOmitFutureValue on FIELD
+
+"""
+Overrides the configuration of graphql_ppx for a single operation or fragment.
+"""
+directive @ppxConfig(
+  schema: String
+  inline: Boolean
+  extend: String
+  templateTag: String
+  templateTagLocation: String
+  templateTagImport: String
+  templateTagReturnType: String
+  taggedTemplate: Boolean
+  apolloMode: Boolean
+  futureAddedValue: Boolean
+  fragmentInQuery: String
+) on QUERY | MUTATION | SUBSCRIPTION | FRAGMENT_DEFINITION
+`;
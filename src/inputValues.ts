@@ -0,0 +1,79 @@
+import {
+  GraphQLArgument,
+  GraphQLInputField,
+  GraphQLInputType,
+  astFromValue,
+  isEnumType,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+  print
+} from "graphql";
+
+/**
+ * Helpers for the values passed to arguments and input fields. They don't
+ * depend on vscode, so they can be tested on their own.
+ */
+
+export const isRequired = (arg: GraphQLArgument | GraphQLInputField) =>
+  isNonNullType(arg.type) && arg.defaultValue === undefined;
+
+export const printDefaultValue = (
+  arg: GraphQLArgument | GraphQLInputField
+): string | undefined => {
+  if (arg.defaultValue === undefined) {
+    return undefined;
+  }
+
+  const ast = astFromValue(arg.defaultValue, arg.type);
+  return ast ? print(ast) : undefined;
+};
+
+/**
+ * A placeholder literal of the type, to be filled in by the user. Input
+ * objects get a skeleton of their required fields. An input object that's
+ * already being filled in further up gets an empty object, since input types
+ * can require themselves through their fields.
+ */
+export function makePlaceholder(
+  type: GraphQLInputType,
+  visited: ReadonlySet<string> = new Set()
+): string {
+  if (isNonNullType(type)) {
+    return makePlaceholder(type.ofType, visited);
+  }
+
+  if (isListType(type)) {
+    return "[]";
+  }
+
+  if (isEnumType(type)) {
+    const [first] = type.getValues();
+    return first ? first.name : "null";
+  }
+
+  if (isInputObjectType(type)) {
+    if (visited.has(type.name)) {
+      return "{}";
+    }
+
+    const fieldVisited = new Set([...visited, type.name]);
+    const fields = Object.values(type.getFields())
+      .filter(isRequired)
+      .map(
+        field => `${field.name}: ${makePlaceholder(field.type, fieldVisited)}`
+      );
+
+    return `{${fields.join(", ")}}`;
+  }
+
+  switch (type.name) {
+    case "Int":
+    case "Float":
+      return "0";
+    case "Boolean":
+      return "false";
+    default:
+      return '""';
+  }
+}
@@ -5,10 +5,34 @@ import {
   GraphQLSchema,
   buildClientSchema,
   IntrospectionQuery,
-  buildSchema
+  buildASTSchema,
+  extendSchema,
+  isTypeSystemExtensionNode,
+  parse
 } from "graphql";
 
-function parseSchema(schema: RawSchema): GraphQLSchema {
+/**
+ * Builds a schema from SDL that might be merged from several files, and
+ * might therefore extend types defined elsewhere in the SDL.
+ */
+function buildSchemaFromSDL(sdl: string): GraphQLSchema {
+  const document = parse(sdl);
+
+  const typeDefinitions = document.definitions.filter(
+    definition => !isTypeSystemExtensionNode(definition)
+  );
+  const typeExtensions = document.definitions.filter(definition =>
+    isTypeSystemExtensionNode(definition)
+  );
+
+  const schema = buildASTSchema({ ...document, definitions: typeDefinitions });
+
+  return typeExtensions.length > 0
+    ? extendSchema(schema, { ...document, definitions: typeExtensions })
+    : schema;
+}
+
+export function parseSchema(schema: RawSchema): GraphQLSchema {
   let processed: GraphQLSchema;
 
   if (schema.type === "json") {
@@ -20,21 +44,22 @@ function parseSchema(schema: RawSchema): GraphQLSchema {
 
     processed = buildClientSchema(parsed as IntrospectionQuery);
   } else {
-    processed = buildSchema(schema.content);
+    processed = buildSchemaFromSDL(schema.content);
   }
 
   return processed;
 }
 
 export async function loadRawSchema(
-  rootPath: string
+  rootPath: string,
+  projectName?: string
 ): Promise<RawSchema | null> {
   const filesInRoot = fs.readdirSync(rootPath);
 
   let rawSchema: RawSchema | null = null;
 
   for (let i = 0; i <= loaders.length - 1; i += 1) {
-    let loaderResult = await loaders[i](rootPath, filesInRoot);
+    let loaderResult = await loaders[i](rootPath, filesInRoot, projectName);
 
     if (loaderResult) {
       rawSchema = loaderResult;
@@ -46,9 +71,10 @@ export async function loadRawSchema(
 }
 
 export async function loadFullSchema(
-  rootPath: string
+  rootPath: string,
+  projectName?: string
 ): Promise<GraphQLSchema | null> {
-  const rawSchema = await loadRawSchema(rootPath);
+  const rawSchema = await loadRawSchema(rootPath, projectName);
 
   if (!rawSchema) {
     return null;
@@ -0,0 +1,206 @@
+import {
+  Framework,
+  InsertGraphQLComponentType,
+  Syntax
+} from "./extensionTypes";
+import { WizardVariable } from "./selectionWizard";
+
+/**
+ * Makes the React component consuming a generated module. ReasonRelay modules
+ * are used through their own hooks, while graphql_ppx modules are passed to
+ * the hooks of reason-apollo-hooks.
+ */
+
+export interface ComponentModule {
+  /**
+   * The name of the generated module, like `Query` or `UserFragment`.
+   */
+  name: string;
+  /**
+   * The variables of the operation, which become props of the component.
+   */
+  variables: WizardVariable[];
+  /**
+   * The name of the prop the fragment reference is passed through. Only used
+   * for fragments.
+   */
+  propName: string;
+}
+
+interface ComponentParts {
+  props: string[];
+  body: string[];
+  result: string;
+}
+
+const isRequired = (variable: WizardVariable) =>
+  variable.type.endsWith("!") && variable.defaultValue === undefined;
+
+const makeProps = (variables: WizardVariable[]) =>
+  variables.map(v => (isRequired(v) ? `~${v.name}` : `~${v.name}=?`));
+
+/**
+ * Optional arguments can only be left out of functions with a positional
+ * argument, so functions other than components take a trailing unit.
+ */
+const withUnit = (args: string[]) => [...args, "()"].join(", ");
+
+const makeLabelledArgs = (variables: WizardVariable[]) =>
+  variables.map(v => (isRequired(v) ? `~${v.name}` : `~${v.name}?`));
+
+const makeRecord = (variables: WizardVariable[]) =>
+  variables.length > 0
+    ? `{${variables.map(v => `${v.name}: ${v.name}`).join(", ")}}`
+    : "()";
+
+function makeReasonRelayParts(
+  syntax: Syntax,
+  type: InsertGraphQLComponentType,
+  module: ComponentModule
+): ComponentParts {
+  const variables = makeRecord(module.variables);
+  const props = makeProps(module.variables);
+  const end = syntax === "Reason" ? ";" : "";
+
+  switch (type) {
+    case "Fragment":
+      return {
+        props: [`~${module.propName}Ref`],
+        body: [
+          `let ${module.propName} = ${module.name}.use(${module.propName}Ref)${end}`
+        ],
+        result: "React.null"
+      };
+    case "Query":
+      return {
+        props,
+        body: [
+          `let queryData = ${module.name}.use(~variables=${variables}, ())${end}`
+        ],
+        result: "React.null"
+      };
+    case "Mutation":
+      return {
+        props: [],
+        body: [
+          `let (mutate, _isMutating) = ${module.name}.use()${end}`,
+          "",
+          `let commitMutation = (${withUnit(props)}) =>`,
+          `  mutate(`,
+          `    ~variables=${variables},`,
+          `    ~onCompleted=(_response, _errors) => (),`,
+          `    (),`,
+          `  )${syntax === "Reason" ? "\n  |> ignore;" : "->ignore"}`
+        ],
+        result: "React.null"
+      };
+    case "Subscription":
+      return {
+        props,
+        body: [
+          `let environment = ReasonRelay.useEnvironmentFromContext()${end}`,
+          "",
+          `React.useEffect0(() => {`,
+          `  let disposable =`,
+          `    ${module.name}.subscribe(~environment, ~variables=${variables}, ())${end}`,
+          "",
+          `  Some(() => ReasonRelay.Disposable.dispose(disposable))${end}`,
+          `})${end}`
+        ],
+        result: "React.null"
+      };
+  }
+}
+
+function makeGraphqlPpxParts(
+  syntax: Syntax,
+  type: InsertGraphQLComponentType,
+  module: ComponentModule
+): ComponentParts {
+  const props = makeProps(module.variables);
+  const end = syntax === "Reason" ? ";" : "";
+  const variables =
+    module.variables.length > 0
+      ? `~variables=${module.name}.makeVariables(${withUnit(
+          makeLabelledArgs(module.variables)
+        )}), `
+      : "";
+
+  const matchResult = [
+    "switch (simple) {",
+    '| Loading => React.string("Loading...")',
+    "| Data(_data) => React.null",
+    "| NoData",
+    "| Error(_) => React.null",
+    "}"
+  ];
+
+  switch (type) {
+    case "Fragment":
+      return {
+        props: [`~${module.propName}: ${module.name}.t`],
+        body: [],
+        result: "React.null"
+      };
+    case "Query":
+      return {
+        props,
+        body: [
+          `let (simple, _full) =`,
+          `  ApolloHooks.useQuery(${variables}${module.name}.definition)${end}`
+        ],
+        result: matchResult.join("\n")
+      };
+    case "Mutation":
+      return {
+        props: [],
+        body: [
+          `let (mutate, _simple, _full) =`,
+          `  ApolloHooks.useMutation(${module.name}.definition)${end}`,
+          "",
+          `let commitMutation = (${withUnit(props)}) =>`,
+          `  mutate(${variables}())${
+            syntax === "Reason" ? " |> ignore;" : "->ignore"
+          }`
+        ],
+        result: "React.null"
+      };
+    case "Subscription":
+      return {
+        props,
+        body: [
+          `let (simple, _full) =`,
+          `  ApolloHooks.useSubscription(${variables}${module.name}.definition)${end}`
+        ],
+        result: matchResult.join("\n")
+      };
+  }
+}
+
+const indentLines = (str: string) =>
+  str
+    .split("\n")
+    .map(line => (line === "" ? line : `  ${line}`))
+    .join("\n");
+
+export function makeComponent(
+  syntax: Syntax,
+  framework: Framework,
+  type: InsertGraphQLComponentType,
+  module: ComponentModule
+): string {
+  const { props, body, result } =
+    framework === "ReasonRelay"
+      ? makeReasonRelayParts(syntax, type, module)
+      : makeGraphqlPpxParts(syntax, type, module);
+
+  const content = [...body, ...(body.length > 0 ? [""] : []), result].join(
+    "\n"
+  );
+
+  return `${
+    syntax === "Reason" ? "[@react.component]" : "@react.component"
+  }\nlet make = (${props.join(", ")}) => {\n${indentLines(content)}${
+    syntax === "Reason" ? ";" : ""
+  }\n}${syntax === "Reason" ? ";" : ""}`;
+}
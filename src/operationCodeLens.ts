@@ -0,0 +1,549 @@
+import {
+  commands,
+  env,
+  languages,
+  window,
+  workspace,
+  CodeLens,
+  CodeLensProvider,
+  EventEmitter,
+  ExtensionContext,
+  Position,
+  ProgressLocation,
+  Range,
+  Selection,
+  TextDocument,
+  TextDocumentContentProvider,
+  Uri,
+  ViewColumn
+} from "vscode";
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  Kind,
+  OperationDefinitionNode,
+  parse,
+  print,
+  valueFromASTUntyped,
+  visit
+} from "graphql";
+
+import { Framework } from "./extensionTypes";
+import { parseGraphQLSources } from "./findGraphQLSources";
+import {
+  getFrameworkDirectiveNames,
+  getFrameworkForExtensionNode,
+  isSpreadOf
+} from "./frameworks";
+import { getEndpoint } from "./endpoints";
+import { applyFragmentArguments } from "./fragmentArguments";
+import { pickEndpointName } from "./refreshSchema";
+import { resolveProjectName } from "./schemaService";
+import { getDefinitions } from "./workspaceIndex";
+
+/**
+ * Shows actions above each operation and fragment in Reason and ReScript
+ * files: editing it in GraphiQL Explorer, copying it as the body of a
+ * request, and running it against an endpoint from the config.
+ */
+
+type ExecutableDefinition = OperationDefinitionNode | FragmentDefinitionNode;
+
+interface TagDefinition {
+  definition: ExecutableDefinition;
+  name: string;
+  /**
+   * The GraphQL document of the tag the definition is in.
+   */
+  document: DocumentNode;
+  framework: Framework;
+  /**
+   * The offset of the definition in the text document.
+   */
+  offset: number;
+  /**
+   * The offset of the tag in the text document.
+   */
+  tagOffset: number;
+}
+
+type JSONValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JSONValue[]
+  | { [key: string]: JSONValue };
+
+type Variables = { [name: string]: JSONValue };
+
+interface RequestBody {
+  query: string;
+  operationName: string;
+  variables: Variables;
+}
+
+const codeLensSelector = [
+  { scheme: "file", language: "reason" },
+  { scheme: "file", language: "rescript" }
+];
+
+const editCommand = "vscode-reasonml-graphql.edit-operation-in-graphiql";
+const copyCommand = "vscode-reasonml-graphql.copy-operation-as-json";
+const runCommand = "vscode-reasonml-graphql.run-operation";
+
+const responseScheme = "reasonml-graphql-response";
+
+const responses: Map<string, string> = new Map();
+const responsesChanged: EventEmitter<Uri> = new EventEmitter();
+
+function findTagDefinitions(document: TextDocument): TagDefinition[] {
+  const parsedSources = parseGraphQLSources(
+    document.languageId,
+    document.getText()
+  );
+
+  return parsedSources.reduce((acc: TagDefinition[], parsed) => {
+    const { source, document: tagDocument } = parsed;
+    const framework =
+      source.type === "TAG" && source.extensionNode
+        ? getFrameworkForExtensionNode(source.extensionNode)
+        : null;
+
+    if (source.type !== "TAG" || !framework) {
+      return acc;
+    }
+
+    const tagOffset = document.offsetAt(
+      new Position(source.start.line, source.start.character)
+    );
+
+    tagDocument.definitions.forEach(definition => {
+      if (
+        (definition.kind === Kind.OPERATION_DEFINITION ||
+          definition.kind === Kind.FRAGMENT_DEFINITION) &&
+        definition.name &&
+        definition.loc
+      ) {
+        acc.push({
+          definition,
+          name: definition.name.value,
+          document: tagDocument,
+          framework,
+          offset: tagOffset + definition.loc.start,
+          tagOffset
+        });
+      }
+    });
+
+    return acc;
+  }, []);
+}
+
+/**
+ * Finds the definition a lens was made for. The offset is only right for the
+ * version of the document the lens was made for, so once the document has
+ * changed the definition is found by its name instead.
+ */
+async function findTagDefinition(
+  uri: Uri,
+  name: string,
+  offset: number,
+  version: number
+): Promise<{ textDocument: TextDocument; found: TagDefinition | null }> {
+  const textDocument = await workspace.openTextDocument(uri);
+  const found = findTagDefinitions(textDocument).find(tagDefinition =>
+    textDocument.version === version
+      ? tagDefinition.offset === offset
+      : tagDefinition.name === name
+  );
+
+  return { textDocument, found: found || null };
+}
+
+/**
+ * Finds the fragments spread by the definition, in the tag itself or
+ * anywhere in the workspace, along with the fragments those spread in turn.
+ * The fragments are mapped by the name they're spread with, which for
+ * graphql_ppx is the name of their module.
+ */
+async function findFragments(
+  tagDefinition: TagDefinition
+): Promise<Map<string, FragmentDefinitionNode>> {
+  const fragments: Map<string, FragmentDefinitionNode | null> = new Map();
+  const queue: ExecutableDefinition[] = [tagDefinition.definition];
+
+  const findFragment = async (
+    name: string
+  ): Promise<FragmentDefinitionNode | null> => {
+    const local = tagDefinition.document.definitions.find(
+      definition =>
+        definition.kind === Kind.FRAGMENT_DEFINITION &&
+        definition.name.value === name
+    );
+
+    if (local) {
+      return local as FragmentDefinitionNode;
+    }
+
+    const [indexed] = (await getDefinitions()).filter(
+      definition =>
+        definition.kind === "fragment" && isSpreadOf(definition, name)
+    );
+
+    if (!indexed) {
+      return null;
+    }
+
+    const [definition] = parse(indexed.text).definitions;
+    return definition.kind === Kind.FRAGMENT_DEFINITION ? definition : null;
+  };
+
+  while (queue.length > 0) {
+    const spreads: string[] = [];
+
+    visit(queue.shift() as ExecutableDefinition, {
+      FragmentSpread(node) {
+        spreads.push(node.name.value);
+      }
+    });
+
+    for (const name of spreads) {
+      if (!fragments.has(name)) {
+        const fragment = await findFragment(name);
+
+        fragments.set(name, fragment);
+
+        if (fragment) {
+          queue.push(fragment);
+        }
+      }
+    }
+  }
+
+  return Array.from(fragments.entries()).reduce(
+    (acc: Map<string, FragmentDefinitionNode>, [name, fragment]) =>
+      fragment ? acc.set(name, fragment) : acc,
+    new Map()
+  );
+}
+
+/**
+ * Prints the operation and every fragment it needs as a single query, with
+ * the arguments of Relay fragments applied and without the directives that
+ * only the framework understands. Fragments spread by their module name are
+ * spread by their own name instead. Throws an error if a fragment isn't
+ * passed an argument it requires.
+ */
+async function makeQuery(tagDefinition: TagDefinition): Promise<string> {
+  const directiveNames = getFrameworkDirectiveNames(tagDefinition.framework);
+  const fragments = await findFragments(tagDefinition);
+  const definitions = Array.from(fragments.values()).filter(
+    (fragment, i, all) =>
+      all.findIndex(other => other.name.value === fragment.name.value) === i
+  );
+
+  const { document, problems } = applyFragmentArguments(
+    visit(
+      {
+        kind: Kind.DOCUMENT,
+        definitions: [
+          tagDefinition.definition,
+          ...definitions.filter(
+            fragment => fragment !== tagDefinition.definition
+          )
+        ]
+      },
+      {
+        FragmentSpread(node) {
+          const fragment = fragments.get(node.name.value);
+
+          return fragment
+            ? { ...node, name: { ...node.name, value: fragment.name.value } }
+            : undefined;
+        }
+      }
+    )
+  );
+
+  if (problems.length > 0) {
+    throw new Error(problems.join(" "));
+  }
+
+  return print(
+    visit(document, {
+      Directive(node) {
+        return directiveNames.includes(node.name.value) ? null : undefined;
+      }
+    })
+  );
+}
+
+/**
+ * Asks the user for the value of each variable of the operation, as JSON.
+ * Values that aren't valid JSON are passed as strings, and empty values are
+ * left out. Resolves null if the user dismisses any of the inputs.
+ */
+async function promptVariables(
+  operation: OperationDefinitionNode
+): Promise<Variables | null> {
+  const variables: Variables = {};
+
+  for (const variableDefinition of operation.variableDefinitions || []) {
+    const name = variableDefinition.variable.name.value;
+    const { defaultValue } = variableDefinition;
+
+    const value = await window.showInputBox({
+      prompt: `Value of $${name}: ${print(variableDefinition.type)}`,
+      placeHolder: 'JSON, like "some string", 42 or {"id": "1"}',
+      value: defaultValue
+        ? JSON.stringify(valueFromASTUntyped(defaultValue))
+        : ""
+    });
+
+    if (value === undefined) {
+      return null;
+    }
+
+    if (value.trim() === "") {
+      continue;
+    }
+
+    try {
+      variables[name] = JSON.parse(value);
+    } catch {
+      variables[name] = value;
+    }
+  }
+
+  return variables;
+}
+
+async function editInGraphiQL(
+  uri: Uri,
+  name: string,
+  offset: number,
+  version: number
+) {
+  const { textDocument, found } = await findTagDefinition(
+    uri,
+    name,
+    offset,
+    version
+  );
+
+  if (!found) {
+    return;
+  }
+
+  const availableCommands = await commands.getCommands(true);
+
+  if (!availableCommands.includes("vscode-graphiql-explorer.edit")) {
+    window.showErrorMessage(
+      "Editing in GraphiQL requires the vscode-graphiql-explorer extension."
+    );
+    return;
+  }
+
+  const textEditor = await window.showTextDocument(textDocument);
+  const position = textDocument.positionAt(found.offset);
+
+  // GraphiQL Explorer edits the operation at the cursor
+  textEditor.selection = new Selection(position, position);
+  await commands.executeCommand("vscode-graphiql-explorer.edit");
+}
+
+async function copyAsJSON(
+  uri: Uri,
+  name: string,
+  offset: number,
+  version: number
+) {
+  const { found } = await findTagDefinition(uri, name, offset, version);
+
+  if (!found) {
+    return;
+  }
+
+  let body: RequestBody;
+
+  try {
+    body = {
+      query: await makeQuery(found),
+      operationName: found.name,
+      variables: {}
+    };
+  } catch (e) {
+    window.showErrorMessage(`Could not copy ${found.name}: ${e.message}`);
+    return;
+  }
+
+  await env.clipboard.writeText(JSON.stringify(body, null, 2));
+  window.showInformationMessage(`Copied ${found.name} as a JSON request body.`);
+}
+
+async function showResponse(operationName: string, response: unknown) {
+  const uri = Uri.parse(`${responseScheme}:${operationName}.json`);
+
+  responses.set(uri.toString(), JSON.stringify(response, null, 2));
+  responsesChanged.fire(uri);
+
+  const document = await workspace.openTextDocument(uri);
+  await window.showTextDocument(document, {
+    viewColumn: ViewColumn.Beside,
+    preserveFocus: true,
+    preview: true
+  });
+}
+
+async function runOperation(
+  uri: Uri,
+  name: string,
+  offset: number,
+  version: number
+) {
+  const { textDocument, found } = await findTagDefinition(
+    uri,
+    name,
+    offset,
+    version
+  );
+
+  if (!found || found.definition.kind !== Kind.OPERATION_DEFINITION) {
+    return;
+  }
+
+  const rootPath = workspace.rootPath || "";
+  const projectName = await resolveProjectName(textDocument.fileName);
+
+  if (projectName === null) {
+    return;
+  }
+
+  const endpointName = await pickEndpointName(
+    rootPath,
+    projectName,
+    `Select endpoint to run ${found.name} against`
+  );
+
+  if (!endpointName) {
+    return;
+  }
+
+  const variables = await promptVariables(found.definition);
+
+  if (!variables) {
+    return;
+  }
+
+  try {
+    const endpoint = getEndpoint(rootPath, projectName, endpointName);
+    const query = await makeQuery(found);
+
+    const response: unknown = await window.withProgress(
+      {
+        location: ProgressLocation.Notification,
+        title: `Running ${found.name} against ${endpoint.url}...`
+      },
+      () =>
+        endpoint
+          .getClient()
+          .rawRequest(query, variables)
+          .catch(e => {
+            // GraphQL errors are part of the response, so they're shown too
+            if (e && e.response) {
+              return e.response;
+            }
+
+            throw e;
+          })
+    );
+
+    await showResponse(found.name, response);
+  } catch (e) {
+    window.showErrorMessage(
+      `Could not run ${found.name}: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+  }
+}
+
+const codeLensProvider: CodeLensProvider = {
+  provideCodeLenses(document: TextDocument) {
+    const tagDefinitions = findTagDefinitions(document);
+
+    return tagDefinitions.reduce((acc: CodeLens[], tagDefinition) => {
+      const position = document.positionAt(tagDefinition.tagOffset);
+      const range = new Range(position, position);
+      const args = [
+        document.uri,
+        tagDefinition.name,
+        tagDefinition.offset,
+        document.version
+      ];
+
+      // Tags with several definitions get the name in each action
+      const suffix =
+        tagDefinitions.filter(
+          other => other.tagOffset === tagDefinition.tagOffset
+        ).length > 1
+          ? ` (${tagDefinition.name})`
+          : "";
+
+      acc.push(
+        new CodeLens(range, {
+          title: `Edit in GraphiQL${suffix}`,
+          command: editCommand,
+          arguments: args
+        })
+      );
+
+      const { definition } = tagDefinition;
+
+      if (definition.kind === Kind.OPERATION_DEFINITION) {
+        acc.push(
+          new CodeLens(range, {
+            title: `Copy as JSON request body${suffix}`,
+            command: copyCommand,
+            arguments: args
+          })
+        );
+
+        // Subscriptions can't be run through a single request
+        if (definition.operation !== "subscription") {
+          acc.push(
+            new CodeLens(range, {
+              title: `Run against endpoint${suffix}`,
+              command: runCommand,
+              arguments: args
+            })
+          );
+        }
+      }
+
+      return acc;
+    }, []);
+  }
+};
+
+const responseProvider: TextDocumentContentProvider = {
+  onDidChange: responsesChanged.event,
+  provideTextDocumentContent(uri: Uri) {
+    return responses.get(uri.toString()) || "";
+  }
+};
+
+export function initOperationCodeLenses(context: ExtensionContext): void {
+  context.subscriptions.push(
+    responsesChanged,
+    languages.registerCodeLensProvider(codeLensSelector, codeLensProvider),
+    workspace.registerTextDocumentContentProvider(
+      responseScheme,
+      responseProvider
+    ),
+    commands.registerCommand(editCommand, editInGraphiQL),
+    commands.registerCommand(copyCommand, copyAsJSON),
+    commands.registerCommand(runCommand, runOperation)
+  );
+}
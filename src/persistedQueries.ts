@@ -0,0 +1,426 @@
+import * as crypto from "crypto";
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  Kind,
+  OperationDefinitionNode,
+  Source,
+  getLocation,
+  parse,
+  print,
+  visit
+} from "graphql";
+
+import { Framework, GraphQLSource } from "./extensionTypes";
+import {
+  extractGraphQLSources,
+  parseGraphQLSources
+} from "./findGraphQLSources";
+import {
+  findModuleName,
+  getFileLocation,
+  getTextOffset,
+  prettify
+} from "./extensionUtils";
+import {
+  getFrameworkDirectiveNames,
+  getFrameworkForExtensionNode,
+  isSpreadOf
+} from "./frameworks";
+import { SourceEdit } from "./formatFiles";
+import { applyFragmentArguments } from "./fragmentArguments";
+
+/**
+ * Collects every operation of the workspace into a manifest of persisted
+ * queries, mapping the hash of each operation's document to the document.
+ * The documents include the fragments they spread, and are printed like the
+ * formatter prints GraphQL, so that the hashes only change when the
+ * operations do. Shared by the generate command and the command line.
+ */
+
+export const manifestFileName = "persisted-queries.json";
+
+export interface PersistedQueriesFile {
+  filePath: string;
+  languageId: string;
+  text: string;
+}
+
+export interface PersistedOperation {
+  name: string;
+  filePath: string;
+  hash: string;
+  document: string;
+}
+
+export interface PersistedQueries {
+  manifest: { [hash: string]: string };
+  operations: PersistedOperation[];
+}
+
+interface ParsedDefinition<T> {
+  definition: T;
+  file: PersistedQueriesFile;
+  source: GraphQLSource;
+  framework: Framework | null;
+  /**
+   * The module the tag of the definition is assigned to, if any.
+   */
+  moduleName: string | null;
+}
+
+type ParsedOperation = ParsedDefinition<OperationDefinitionNode>;
+type ParsedFragment = ParsedDefinition<FragmentDefinitionNode>;
+
+function formatLocation(
+  file: PersistedQueriesFile,
+  source: GraphQLSource,
+  loc: { line: number; column: number }
+): string {
+  const { line, column } = getFileLocation(source, loc);
+  return `${file.filePath}:${line}:${column}`;
+}
+
+function parseFiles(
+  files: PersistedQueriesFile[],
+  problems: string[]
+): { operations: ParsedOperation[]; fragments: ParsedFragment[] } {
+  const operations: ParsedOperation[] = [];
+  const fragments: ParsedFragment[] = [];
+
+  files.forEach(file =>
+    (extractGraphQLSources(file.languageId, file.text) || []).forEach(
+      source => {
+        if (source.type === "TAG" && /^[\s]*$/.test(source.content)) {
+          return;
+        }
+
+        let document: DocumentNode;
+
+        try {
+          document = parse(new Source(source.content, file.filePath));
+        } catch (e) {
+          const loc = e.locations ? e.locations[0] : { line: 1, column: 1 };
+          problems.push(`${formatLocation(file, source, loc)}: ${e.message}`);
+          return;
+        }
+
+        const tag =
+          source.type === "TAG"
+            ? {
+                framework: source.extensionNode
+                  ? getFrameworkForExtensionNode(source.extensionNode)
+                  : null,
+                moduleName: findModuleName(
+                  file.text,
+                  getTextOffset(file.text, source.start)
+                )
+              }
+            : { framework: null, moduleName: null };
+
+        document.definitions.forEach(definition => {
+          const parsed = { file, source, ...tag };
+
+          if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+            fragments.push({ ...parsed, definition });
+          } else if (definition.kind === Kind.OPERATION_DEFINITION) {
+            operations.push({ ...parsed, definition });
+          }
+        });
+      }
+    )
+  );
+
+  return { operations, fragments };
+}
+
+function checkDuplicateNames(
+  definitions: Array<ParsedOperation | ParsedFragment>,
+  problems: string[]
+) {
+  const byName: Map<
+    string,
+    Array<ParsedOperation | ParsedFragment>
+  > = new Map();
+
+  definitions.forEach(parsed => {
+    const { name } = parsed.definition;
+
+    if (name) {
+      byName.set(name.value, [...(byName.get(name.value) || []), parsed]);
+    }
+  });
+
+  byName.forEach((duplicates, name) => {
+    if (duplicates.length > 1) {
+      problems.push(
+        `${name} is defined ${duplicates.length} times, in ${duplicates
+          .map(duplicate => duplicate.file.filePath)
+          .join(", ")}.`
+      );
+    }
+  });
+}
+
+/**
+ * Makes the document of an operation, with every fragment it spreads in turn.
+ * graphql_ppx spreads fragments by their module name, so those spreads are
+ * renamed to the name of the fragment. The arguments of Relay fragments are
+ * applied, and the directives only the framework understands are left out,
+ * so that the document is what the server gets.
+ */
+function makeOperationDocument(
+  operation: ParsedOperation,
+  fragments: ParsedFragment[],
+  problems: string[]
+): DocumentNode {
+  const findFragment = (name: string) =>
+    fragments.find(fragment =>
+      isSpreadOf(
+        {
+          name: fragment.definition.name.value,
+          moduleName: fragment.moduleName
+        },
+        name
+      )
+    );
+
+  const included: ParsedFragment[] = [];
+  const directiveNames = operation.framework
+    ? getFrameworkDirectiveNames(operation.framework)
+    : [];
+
+  const prepare = <T extends OperationDefinitionNode | FragmentDefinitionNode>(
+    parsed: ParsedDefinition<T>
+  ): T =>
+    visit(parsed.definition, {
+      FragmentSpread(node) {
+        const fragment = findFragment(node.name.value);
+
+        if (!fragment) {
+          const loc = node.loc
+            ? getLocation(node.loc.source, node.loc.start)
+            : { line: 1, column: 1 };
+
+          problems.push(
+            `${formatLocation(parsed.file, parsed.source, loc)}: Fragment ${
+              node.name.value
+            } isn't defined anywhere.`
+          );
+          return undefined;
+        }
+
+        if (!included.includes(fragment)) {
+          included.push(fragment);
+        }
+
+        return {
+          ...node,
+          name: { ...node.name, value: fragment.definition.name.value }
+        };
+      }
+    });
+
+  const definitions: Array<OperationDefinitionNode | FragmentDefinitionNode> = [
+    prepare(operation)
+  ];
+
+  // Fragments found while preparing others are appended, and prepared in turn
+  for (let i = 0; i < included.length; i++) {
+    definitions.push(prepare(included[i]));
+  }
+
+  const applied = applyFragmentArguments({ kind: Kind.DOCUMENT, definitions });
+
+  applied.problems.forEach(problem =>
+    problems.push(`${operation.file.filePath}: ${problem}`)
+  );
+
+  const document: DocumentNode = visit(applied.document, {
+    Directive(node) {
+      return directiveNames.includes(node.name.value) ? null : undefined;
+    }
+  });
+
+  checkVariables(operation, document, problems);
+  return document;
+}
+
+/**
+ * Checks that the document only uses variables the operation defines, like
+ * the variables of Relay fragment arguments that aren't passed.
+ */
+function checkVariables(
+  operation: ParsedOperation,
+  document: DocumentNode,
+  problems: string[]
+) {
+  const defined = (operation.definition.variableDefinitions || []).map(
+    variableDefinition => variableDefinition.variable.name.value
+  );
+  const operationName = operation.definition.name
+    ? operation.definition.name.value
+    : "The operation";
+  const undefinedNames: Set<string> = new Set();
+
+  visit(document, {
+    VariableDefinition() {
+      return false;
+    },
+    Variable(node) {
+      if (!defined.includes(node.name.value)) {
+        undefinedNames.add(node.name.value);
+      }
+    }
+  });
+
+  undefinedNames.forEach(name =>
+    problems.push(
+      `${operation.file.filePath}: ${operationName} uses $${name}, which it doesn't define.`
+    )
+  );
+}
+
+const hashDocument = (document: string) =>
+  crypto
+    .createHash("sha256")
+    .update(document)
+    .digest("hex");
+
+/**
+ * Collects the persisted queries of the files. Throws an error listing every
+ * problem found, like duplicate names, missing fragments or fragment arguments
+ * that aren't passed, since a manifest
+ * missing operations would break the app at runtime.
+ */
+export function collectPersistedQueries(
+  files: PersistedQueriesFile[]
+): PersistedQueries {
+  const problems: string[] = [];
+  const { operations, fragments } = parseFiles(files, problems);
+
+  checkDuplicateNames([...operations, ...fragments], problems);
+
+  const persisted = operations.reduce(
+    (acc: PersistedOperation[], operation) => {
+      const { name } = operation.definition;
+
+      if (!name) {
+        problems.push(
+          `${operation.file.filePath}: Anonymous operations can't be persisted.`
+        );
+        return acc;
+      }
+
+      const document = prettify(
+        print(makeOperationDocument(operation, fragments, problems))
+      );
+
+      return [
+        ...acc,
+        {
+          name: name.value,
+          filePath: operation.file.filePath,
+          hash: hashDocument(document),
+          document
+        }
+      ];
+    },
+    []
+  );
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Could not collect the persisted queries:\n${Array.from(
+        new Set(problems)
+      ).join("\n")}`
+    );
+  }
+
+  return {
+    manifest: persisted.reduce(
+      (acc: { [hash: string]: string }, operation) => ({
+        ...acc,
+        [operation.hash]: operation.document
+      }),
+      {}
+    ),
+    operations: persisted
+  };
+}
+
+const annotationRegexp = /^[ \t]*(\/\*|\/\/) Persisted query \w+: \w+( \*\/)?\n/;
+
+/**
+ * Produces edits putting a comment with the hash of each operation of the
+ * file above the module it's in, replacing the comments of earlier runs.
+ */
+export function makeHashAnnotationEdits(
+  file: PersistedQueriesFile,
+  operations: PersistedOperation[]
+): SourceEdit[] {
+  const fileOperations = operations.filter(
+    operation => operation.filePath === file.filePath
+  );
+  const annotations: Map<number, string[]> = new Map();
+
+  parseGraphQLSources(file.languageId, file.text).forEach(
+    ({ source, document }) => {
+      if (source.type !== "TAG") {
+        return;
+      }
+
+      const tagOffset = getTextOffset(file.text, source.start);
+      const moduleName = findModuleName(file.text, tagOffset);
+
+      if (!moduleName) {
+        return;
+      }
+
+      const declarationOffset = file.text
+        .slice(0, tagOffset)
+        .lastIndexOf(`module ${moduleName}`);
+      const lineOffset = file.text.lastIndexOf("\n", declarationOffset) + 1;
+      const indentation = file.text.slice(lineOffset, declarationOffset);
+
+      const names = document.definitions.reduce(
+        (acc: string[], definition) =>
+          definition.kind === Kind.OPERATION_DEFINITION && definition.name
+            ? [...acc, definition.name.value]
+            : acc,
+        []
+      );
+
+      fileOperations
+        .filter(operation => names.includes(operation.name))
+        .forEach(operation => {
+          const comment =
+            file.languageId === "rescript"
+              ? `// Persisted query ${operation.name}: ${operation.hash}`
+              : `/* Persisted query ${operation.name}: ${operation.hash} */`;
+
+          annotations.set(lineOffset, [
+            ...(annotations.get(lineOffset) || []),
+            `${indentation}${comment}\n`
+          ]);
+        });
+    }
+  );
+
+  return Array.from(annotations.entries()).map(([lineOffset, comments]) => {
+    let start = lineOffset;
+
+    // Comments of earlier runs right above the module are replaced
+    while (start > 0) {
+      const previousLineOffset = file.text.lastIndexOf("\n", start - 2) + 1;
+
+      if (!annotationRegexp.test(file.text.slice(previousLineOffset, start))) {
+        break;
+      }
+
+      start = previousLineOffset;
+    }
+
+    return { start, end: lineOffset, newText: comments.join("") };
+  });
+}
@@ -0,0 +1,76 @@
+import * as path from "path";
+import { workspace, window, ProgressLocation } from "vscode";
+
+import { resolveProjectName } from "./schemaService";
+import { getEndpoint, getEndpointNames, refreshSchemaFile } from "./endpoints";
+
+/**
+ * Picks the endpoint of the project to use, asking the user if there are
+ * several. Resolves null if there are none, or the user dismisses the pick.
+ */
+export async function pickEndpointName(
+  rootPath: string,
+  projectName: string | undefined,
+  placeHolder: string
+): Promise<string | null> {
+  const endpointNames = getEndpointNames(rootPath, projectName);
+
+  if (endpointNames.length === 0) {
+    window.showErrorMessage(
+      "No endpoints found. Add your endpoint to 'extensions.endpoints' in your .graphqlconfig."
+    );
+    return null;
+  }
+
+  const endpointName =
+    endpointNames.length === 1
+      ? endpointNames[0]
+      : await window.showQuickPick(endpointNames, { placeHolder });
+
+  return endpointName || null;
+}
+
+export async function refreshSchemaFromEndpoint() {
+  const rootPath = workspace.rootPath || "";
+  const textEditor = window.activeTextEditor;
+
+  const projectName = await resolveProjectName(
+    textEditor ? textEditor.document.fileName : rootPath
+  );
+
+  if (projectName === null) {
+    return;
+  }
+
+  const endpointName = await pickEndpointName(
+    rootPath,
+    projectName,
+    "Select endpoint to refresh the schema from"
+  );
+
+  if (!endpointName) {
+    return;
+  }
+
+  try {
+    const { url } = getEndpoint(rootPath, projectName, endpointName);
+
+    const schemaPath = await window.withProgress(
+      {
+        location: ProgressLocation.Notification,
+        title: `Refreshing GraphQL schema from ${url}...`
+      },
+      () => refreshSchemaFile(rootPath, projectName, endpointName)
+    );
+
+    window.showInformationMessage(
+      `Refreshed GraphQL schema in ${path.relative(rootPath, schemaPath)}.`
+    );
+  } catch (e) {
+    window.showErrorMessage(
+      `Could not refresh GraphQL schema: ${
+        e instanceof Error ? e.message : String(e)
+      }`
+    );
+  }
+}
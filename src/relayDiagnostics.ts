@@ -0,0 +1,175 @@
+import {
+  languages,
+  workspace,
+  Diagnostic,
+  DiagnosticCollection,
+  DiagnosticSeverity,
+  ExtensionContext,
+  Position,
+  Range,
+  TextDocument
+} from "vscode";
+import { DefinitionNode, DocumentNode, Kind } from "graphql";
+
+import { GraphQLSourceFromTag } from "./extensionTypes";
+import { parseGraphQLSources } from "./findGraphQLSources";
+import { getFileModuleName } from "./extensionUtils";
+import { getFrameworkForExtensionNode } from "./frameworks";
+
+/**
+ * ReasonRelay requires the names of operations and fragments to be prefixed
+ * with the name of the module they're defined in, that is the file name. The
+ * language server doesn't know which file a document comes from, so this is
+ * checked here rather than as a validation rule.
+ */
+
+interface NamingConvention {
+  pattern: (moduleName: string) => RegExp;
+  example: (moduleName: string) => string;
+}
+
+const namingConventions: { [kind: string]: NamingConvention } = {
+  query: {
+    pattern: moduleName => new RegExp(`^${moduleName}\\w*Query$`),
+    example: moduleName => `${moduleName}Query`
+  },
+  mutation: {
+    pattern: moduleName => new RegExp(`^${moduleName}\\w*Mutation$`),
+    example: moduleName => `${moduleName}_SomethingMutation`
+  },
+  subscription: {
+    pattern: moduleName => new RegExp(`^${moduleName}\\w*Subscription$`),
+    example: moduleName => `${moduleName}Subscription`
+  },
+  fragment: {
+    pattern: moduleName => new RegExp(`^${moduleName}_\\w+$`),
+    example: moduleName => `${moduleName}_something`
+  }
+};
+
+const isReasonRelayTag = (source: GraphQLSourceFromTag) =>
+  !!source.extensionNode &&
+  getFrameworkForExtensionNode(source.extensionNode) === "ReasonRelay";
+
+function getDefinitionName(
+  definition: DefinitionNode
+): { kind: string; name: string; start: number; end: number } | null {
+  if (
+    definition.kind !== Kind.OPERATION_DEFINITION &&
+    definition.kind !== Kind.FRAGMENT_DEFINITION
+  ) {
+    return null;
+  }
+
+  const { name } = definition;
+
+  return name && name.loc
+    ? {
+        kind:
+          definition.kind === Kind.FRAGMENT_DEFINITION
+            ? "fragment"
+            : definition.operation,
+        name: name.value,
+        start: name.loc.start,
+        end: name.loc.end
+      }
+    : null;
+}
+
+function checkNamingConventions(
+  document: TextDocument,
+  source: GraphQLSourceFromTag,
+  tagDocument: DocumentNode,
+  moduleName: string
+): Diagnostic[] {
+  const sourceOffset = document.offsetAt(
+    new Position(source.start.line, source.start.character)
+  );
+
+  return tagDocument.definitions.reduce((acc: Diagnostic[], definition) => {
+    const definitionName = getDefinitionName(definition);
+    const convention = definitionName
+      ? namingConventions[definitionName.kind]
+      : null;
+
+    if (
+      !definitionName ||
+      !convention ||
+      convention.pattern(moduleName).test(definitionName.name)
+    ) {
+      return acc;
+    }
+
+    const diagnostic = new Diagnostic(
+      new Range(
+        document.positionAt(sourceOffset + definitionName.start),
+        document.positionAt(sourceOffset + definitionName.end)
+      ),
+      `ReasonRelay requires ${
+        definitionName.kind
+      } names in module ${moduleName} to be prefixed with the module name, like ${convention.example(
+        moduleName
+      )}.`,
+      DiagnosticSeverity.Error
+    );
+
+    diagnostic.source = "ReasonRelay";
+    acc.push(diagnostic);
+    return acc;
+  }, []);
+}
+
+function updateDiagnostics(
+  diagnostics: DiagnosticCollection,
+  document: TextDocument
+) {
+  if (document.languageId !== "reason" && document.languageId !== "rescript") {
+    return;
+  }
+
+  const moduleName = getFileModuleName(document.fileName);
+  const parsedSources = parseGraphQLSources(
+    document.languageId,
+    document.getText()
+  );
+
+  diagnostics.set(
+    document.uri,
+    parsedSources.reduce(
+      (acc: Diagnostic[], { source, document: tagDocument }) =>
+        source.type === "TAG" && isReasonRelayTag(source)
+          ? [
+              ...acc,
+              ...checkNamingConventions(
+                document,
+                source,
+                tagDocument,
+                moduleName
+              )
+            ]
+          : acc,
+      []
+    )
+  );
+}
+
+export function initRelayDiagnostics(context: ExtensionContext): void {
+  const diagnostics = languages.createDiagnosticCollection("reason-relay");
+
+  workspace.textDocuments.forEach(document =>
+    updateDiagnostics(diagnostics, document)
+  );
+
+  context.subscriptions.push(
+    diagnostics,
+    workspace.onDidOpenTextDocument(document =>
+      updateDiagnostics(diagnostics, document)
+    ),
+    workspace.onDidChangeTextDocument(e =>
+      updateDiagnostics(diagnostics, e.document)
+    ),
+    workspace.onDidCloseTextDocument(document =>
+      diagnostics.delete(document.uri)
+    )
+  );
+}
@@ -0,0 +1,284 @@
+import {
+  ASTVisitor,
+  DirectiveNode,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  FragmentSpreadNode,
+  GraphQLError,
+  Kind,
+  ValidationContext,
+  ValidationRule,
+  ValueNode,
+  getNamedType,
+  isInterfaceType,
+  isObjectType
+} from "graphql";
+
+/**
+ * Definitions of the directives Relay adds on top of the schema.
+ * @arguments and @argumentDefinitions take arbitrary arguments, which can't
+ * be expressed in SDL, so unknown arguments to them are filtered out after
+ * validation instead.
+ */
+export const relayDirectives = `
+"""
+Defines the arguments of a fragment, like \`@argumentDefinitions(count: {type: "Int", defaultValue: 10})\`.
+"""
+directive @argumentDefinitions on FRAGMENT_DEFINITION
+
+"""
+Passes arguments to a fragment defining them through \`@argumentDefinitions\`.
+"""
+directive @arguments on FRAGMENT_SPREAD
+
+"""
+Marks a field as a connection to paginate. The key must be of the form \`<SomeName>_<fieldName>\`.
+"""
+directive @connection(key: String!, filters: [String]) on FIELD
+
+"""
+Generates a query for refetching the fragment, named \`queryName\`.
+"""
+directive @refetchable(queryName: String!) on FRAGMENT_DEFINITION
+
+"""
+\`plural: true\` makes the fragment take a list of references, \`mask: false\` makes its data available in the parent.
+"""
+directive @relay(plural: Boolean, mask: Boolean) on FRAGMENT_DEFINITION | FRAGMENT_SPREAD
+
+"""
+Makes the fragment readable outside of a component.
+"""
+directive @inline on FRAGMENT_DEFINITION
+
+"""
+Generates a type for the raw response of the operation.
+"""
+directive @raw_response_type on QUERY | MUTATION | SUBSCRIPTION
+
+"""
+Selects one of the fragments spread with \`@module\` depending on the type.
+"""
+directive @match on FIELD
+
+"""
+Loads the module \`name\` when the fragment matches in a \`@match\` field.
+"""
+directive @module(name: String!) on FRAGMENT_SPREAD
+`;
+
+export interface ArgumentDefinition {
+  name: string;
+  required: boolean;
+  /**
+   * The value of the argument when it isn't passed, if any.
+   */
+  defaultValue: ValueNode | null;
+}
+
+export const findDirective = (
+  node: { directives?: ReadonlyArray<DirectiveNode> },
+  name: string
+): DirectiveNode | null =>
+  (node.directives || []).find(directive => directive.name.value === name) ||
+  null;
+
+/**
+ * Reads @argumentDefinitions(name: {type: "Int!", defaultValue: 1}). An
+ * argument is required if its type is non null and it has no default value.
+ */
+export const getArgumentDefinitions = (
+  fragment: FragmentDefinitionNode
+): Array<ArgumentDefinition> => {
+  const directive = findDirective(fragment, "argumentDefinitions");
+
+  return (directive ? directive.arguments || [] : []).map(arg => {
+    const fields = arg.value.kind === Kind.OBJECT ? arg.value.fields : [];
+    const type = fields.find(field => field.name.value === "type");
+    const defaultValue = fields.find(
+      field => field.name.value === "defaultValue"
+    );
+
+    return {
+      name: arg.name.value,
+      defaultValue: defaultValue ? defaultValue.value : null,
+      required:
+        !defaultValue &&
+        !!type &&
+        type.value.kind === Kind.STRING &&
+        type.value.value.endsWith("!")
+    };
+  });
+};
+
+/**
+ * Checks that the arguments passed to a fragment through @arguments are the
+ * ones it defines through @argumentDefinitions, and that all required ones
+ * are passed.
+ */
+export function RelayArgumentsMatchDefinitions(
+  context: ValidationContext
+): ASTVisitor {
+  return {
+    FragmentSpread(node: FragmentSpreadNode) {
+      const fragmentName = node.name.value;
+      const fragment = context.getFragment(fragmentName);
+
+      if (!fragment) {
+        return;
+      }
+
+      const definitions = getArgumentDefinitions(fragment);
+      const argumentsDirective = findDirective(node, "arguments");
+      const passed = argumentsDirective
+        ? argumentsDirective.arguments || []
+        : [];
+
+      passed.forEach(arg => {
+        if (
+          !definitions.some(definition => definition.name === arg.name.value)
+        ) {
+          context.reportError(
+            new GraphQLError(
+              `Fragment "${fragmentName}" does not define the argument "${arg.name.value}" through @argumentDefinitions.`,
+              arg
+            )
+          );
+        }
+      });
+
+      definitions.forEach(definition => {
+        if (
+          definition.required &&
+          !passed.some(arg => arg.name.value === definition.name)
+        ) {
+          context.reportError(
+            new GraphQLError(
+              `Fragment "${fragmentName}" requires the argument "${definition.name}", which must be passed through @arguments.`,
+              argumentsDirective || node
+            )
+          );
+        }
+      });
+    }
+  };
+}
+
+/**
+ * Checks that @connection is only used on connection fields that are
+ * paginated, and that the key follows Relay's `<SomeName>_<fieldName>` form.
+ */
+export function RelayConnectionKey(context: ValidationContext): ASTVisitor {
+  return {
+    Field(node: FieldNode) {
+      const directive = findDirective(node, "connection");
+
+      if (!directive) {
+        return;
+      }
+
+      const fieldName = node.name.value;
+      const key = (directive.arguments || []).find(
+        arg => arg.name.value === "key"
+      );
+
+      const keyValue = key ? key.value : null;
+
+      if (keyValue && keyValue.kind !== Kind.STRING) {
+        context.reportError(
+          new GraphQLError(
+            "The key argument of @connection must be a string literal.",
+            keyValue
+          )
+        );
+      } else if (keyValue && !keyValue.value.endsWith(`_${fieldName}`)) {
+        context.reportError(
+          new GraphQLError(
+            `Expected the key argument of @connection to be of the form <SomeName>_${fieldName}, got "${keyValue.value}".`,
+            keyValue
+          )
+        );
+      }
+
+      const type = context.getType();
+      const namedType = type ? getNamedType(type) : null;
+
+      if (
+        (isObjectType(namedType) || isInterfaceType(namedType)) &&
+        !(namedType.getFields().edges && namedType.getFields().pageInfo)
+      ) {
+        context.reportError(
+          new GraphQLError(
+            `@connection can only be used on connection fields, "${fieldName}" returns "${namedType.name}" which has no "edges" and "pageInfo".`,
+            directive
+          )
+        );
+      }
+
+      if (
+        !(node.arguments || []).some(
+          arg => arg.name.value === "first" || arg.name.value === "last"
+        )
+      ) {
+        context.reportError(
+          new GraphQLError(
+            `The connection field "${fieldName}" must be passed "first" or "last" to be paginated.`,
+            node
+          )
+        );
+      }
+    }
+  };
+}
+
+/**
+ * The rules run by the language server for ReasonRelay documents. They only
+ * see the GraphQL itself, so the naming conventions, which depend on the
+ * file a definition is in, are checked by the extension in relayDiagnostics
+ * instead.
+ */
+export const relayValidationRules: Array<ValidationRule> = [
+  RelayArgumentsMatchDefinitions,
+  RelayConnectionKey
+];
+
+const unknownArgumentRegexp = /^Unknown argument "\w+" on directive "@(arguments|argumentDefinitions)"/;
+const undefinedVariableRegexp = /^Variable "\$(\w+)" is not defined/;
+
+/**
+ * Relay relaxes some of the standard validation rules. Arguments to
+ * @arguments and @argumentDefinitions are arbitrary, and variables defined
+ * by a fragment's @argumentDefinitions don't have to be defined by the
+ * operation.
+ */
+export function filterRelayFalsePositives(
+  document: DocumentNode,
+  errors: ReadonlyArray<GraphQLError>
+): Array<GraphQLError> {
+  return errors.filter(error => {
+    if (unknownArgumentRegexp.test(error.message)) {
+      return false;
+    }
+
+    const undefinedVariable = error.message.match(undefinedVariableRegexp);
+    const variableNode = error.nodes ? error.nodes[0] : null;
+
+    if (!undefinedVariable || !variableNode || !variableNode.loc) {
+      return true;
+    }
+
+    const position = variableNode.loc.start;
+
+    return !document.definitions.some(
+      definition =>
+        definition.kind === Kind.FRAGMENT_DEFINITION &&
+        !!definition.loc &&
+        definition.loc.start <= position &&
+        position < definition.loc.end &&
+        getArgumentDefinitions(definition).some(
+          argumentDefinition => argumentDefinition.name === undefinedVariable[1]
+        )
+    );
+  });
+}
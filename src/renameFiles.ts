@@ -0,0 +1,280 @@
+import {
+  workspace,
+  ExtensionContext,
+  FileWillRenameEvent,
+  Range,
+  TextDocument,
+  Uri,
+  WorkspaceEdit
+} from "vscode";
+import { Kind, visit, DocumentNode } from "graphql";
+
+import {
+  getFileModuleName,
+  getLanguageIdForFile,
+  getSyntax,
+  getTextOffset,
+  makeTextPositions
+} from "./extensionUtils";
+import { parseGraphQLSources } from "./findGraphQLSources";
+import { getFrameworkForExtensionNode } from "./frameworks";
+import { readWorkspaceFile } from "./workspaceIndex";
+
+/**
+ * ReasonRelay requires operations and fragments to be prefixed with the name
+ * of the module they're defined in, so renaming a file means renaming them,
+ * along with every spread of the fragments across the workspace.
+ */
+
+interface TextEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * The language id of Reason and ReScript files, the only ones that are
+ * modules.
+ */
+const getModuleLanguageId = (filePath: string): string | null => {
+  const languageId = getLanguageIdForFile(filePath);
+  return languageId && getSyntax(languageId) ? languageId : null;
+};
+
+/**
+ * Parses the GraphQL in each ReasonRelay extension node of the text, along
+ * with the offset of the GraphQL in the text. Nodes that don't parse are
+ * skipped.
+ */
+function parseRelayTags(
+  text: string,
+  languageId: string
+): Array<{ offset: number; document: DocumentNode }> {
+  return parseGraphQLSources(languageId, text).reduce(
+    (acc: Array<{ offset: number; document: DocumentNode }>, parsed) => {
+      const { source, document } = parsed;
+
+      if (
+        source.type === "TAG" &&
+        source.extensionNode &&
+        getFrameworkForExtensionNode(source.extensionNode) === "ReasonRelay"
+      ) {
+        acc.push({ offset: getTextOffset(text, source.start), document });
+      }
+
+      return acc;
+    },
+    []
+  );
+}
+
+/**
+ * What follows the module name in the names of operations and fragments:
+ * `_` and the rest of the name of fragments, or the kind of operation. Any
+ * other name just happens to start with the module name, like
+ * `UserProfile_user` in `User.re`.
+ */
+const moduleNameSuffixRegexp = /^(_\w*|Query|Mutation|Subscription)$/;
+
+const isNamedAfterModule = (name: string, moduleName: string) =>
+  name.startsWith(moduleName) &&
+  moduleNameSuffixRegexp.test(name.slice(moduleName.length));
+
+/**
+ * Finds the operations and fragments defined in the text that are named after
+ * the old module, mapped to their names for the new module.
+ */
+function findRenamedDefinitions(
+  text: string,
+  languageId: string,
+  oldModuleName: string,
+  newModuleName: string
+): Map<string, string> {
+  const renames: Map<string, string> = new Map();
+
+  parseRelayTags(text, languageId).forEach(({ document }) =>
+    document.definitions.forEach(definition => {
+      if (
+        (definition.kind === Kind.OPERATION_DEFINITION ||
+          definition.kind === Kind.FRAGMENT_DEFINITION) &&
+        definition.name &&
+        isNamedAfterModule(definition.name.value, oldModuleName)
+      ) {
+        const name = definition.name.value;
+        renames.set(name, newModuleName + name.slice(oldModuleName.length));
+      }
+    })
+  );
+
+  return renames;
+}
+
+type RenamedKind =
+  | typeof Kind.OPERATION_DEFINITION
+  | typeof Kind.FRAGMENT_DEFINITION
+  | typeof Kind.FRAGMENT_SPREAD;
+
+const allRenamedKinds: RenamedKind[] = [
+  Kind.OPERATION_DEFINITION,
+  Kind.FRAGMENT_DEFINITION,
+  Kind.FRAGMENT_SPREAD
+];
+
+/**
+ * Finds the definitions and fragment spreads in the text with any of the
+ * renamed names, limited to the kinds of nodes given.
+ */
+function findRenameEdits(
+  text: string,
+  languageId: string,
+  renames: Map<string, string>,
+  kinds: RenamedKind[]
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+
+  parseRelayTags(text, languageId).forEach(({ offset, document }) =>
+    visit(document, {
+      enter(node) {
+        if (
+          (node.kind === Kind.OPERATION_DEFINITION ||
+            node.kind === Kind.FRAGMENT_DEFINITION ||
+            node.kind === Kind.FRAGMENT_SPREAD) &&
+          kinds.includes(node.kind) &&
+          node.name &&
+          node.name.loc
+        ) {
+          const newName = renames.get(node.name.value);
+
+          if (newName) {
+            edits.push({
+              start: offset + node.name.loc.start,
+              end: offset + node.name.loc.end,
+              newText: newName
+            });
+          }
+        }
+      }
+    })
+  );
+
+  return edits;
+}
+
+function addRenameEdits(
+  edit: WorkspaceEdit,
+  uri: Uri,
+  text: string,
+  renames: Map<string, string>,
+  kinds: RenamedKind[]
+): void {
+  const languageId = getModuleLanguageId(uri.fsPath);
+
+  if (
+    !languageId ||
+    !Array.from(renames.keys()).some(name => text.includes(name))
+  ) {
+    return;
+  }
+
+  const toPosition = makeTextPositions(text);
+
+  findRenameEdits(text, languageId, renames, kinds).forEach(
+    ({ start, end, newText }) => {
+      const startPosition = toPosition(start);
+      const endPosition = toPosition(end);
+
+      edit.replace(
+        uri,
+        new Range(
+          startPosition.line,
+          startPosition.character,
+          endPosition.line,
+          endPosition.character
+        ),
+        newText
+      );
+    }
+  );
+}
+
+/**
+ * Adds the edits renaming the fragment spreads in the document to the edit,
+ * from the names that are the keys of renames to their values.
+ */
+export function addSpreadRenameEdits(
+  edit: WorkspaceEdit,
+  document: TextDocument,
+  renames: Map<string, string>
+): void {
+  addRenameEdits(edit, document.uri, document.getText(), renames, [
+    Kind.FRAGMENT_SPREAD
+  ]);
+}
+
+/**
+ * Makes the edit renaming the definitions and fragment spreads across the
+ * workspace, from the names that are the keys of renames to their values.
+ */
+async function makeRenameEdit(
+  renames: Map<string, string>
+): Promise<WorkspaceEdit> {
+  const edit = new WorkspaceEdit();
+
+  if (renames.size === 0) {
+    return edit;
+  }
+
+  const uris = await workspace.findFiles("**/*.{re,res}", "**/node_modules/**");
+
+  uris.forEach(uri => {
+    if (getModuleLanguageId(uri.fsPath)) {
+      addRenameEdits(
+        edit,
+        uri,
+        readWorkspaceFile(uri),
+        renames,
+        allRenamedKinds
+      );
+    }
+  });
+
+  return edit;
+}
+
+/**
+ * Makes the edit renaming what's named after the renamed modules. It's
+ * applied by VS Code along with the renames of the files, so that they're
+ * undone together too.
+ */
+async function renameDefinitions(
+  files: ReadonlyArray<{ oldUri: Uri; newUri: Uri }>
+): Promise<WorkspaceEdit> {
+  const renames: Map<string, string> = new Map();
+
+  files.forEach(({ oldUri, newUri }) => {
+    const languageId = getModuleLanguageId(oldUri.fsPath);
+    const oldModuleName = getFileModuleName(oldUri.fsPath);
+    const newModuleName = getFileModuleName(newUri.fsPath);
+
+    if (!languageId || oldModuleName === newModuleName) {
+      return;
+    }
+
+    findRenamedDefinitions(
+      readWorkspaceFile(oldUri),
+      languageId,
+      oldModuleName,
+      newModuleName
+    ).forEach((newName, oldName) => renames.set(oldName, newName));
+  });
+
+  return makeRenameEdit(renames);
+}
+
+export function initFileRenames(context: ExtensionContext): void {
+  context.subscriptions.push(
+    workspace.onWillRenameFiles((e: FileWillRenameEvent) =>
+      e.waitUntil(renameDefinitions(e.files))
+    )
+  );
+}
@@ -0,0 +1,230 @@
+import * as path from "path";
+import { window, workspace, ExtensionContext, OutputChannel } from "vscode";
+import { GraphQLSchema, Kind } from "graphql";
+import { getLocator } from "locate-character";
+
+import { parseGraphQLSources } from "./findGraphQLSources";
+import {
+  findModuleName,
+  getFileLocation,
+  getFileModuleName,
+  getLanguageIdForFile,
+  getTextOffset,
+  graphQLFilesGlob
+} from "./extensionUtils";
+import { getProjectNamesForFile } from "./graphqlConfig";
+import { onDidReplaceSchema, SchemaReplacedEvent } from "./schemaService";
+import {
+  findSchemaChanges,
+  findSchemaUsages,
+  SchemaChange
+} from "./schemaUsages";
+import { readWorkspaceFile } from "./workspaceIndex";
+
+/**
+ * Reports how a reloaded schema differs from the one it replaces, and which
+ * operations and fragments in the workspace use the parts that changed.
+ */
+
+interface ChangeUsage {
+  filePath: string;
+  line: number;
+  column: number;
+  moduleName: string;
+  definitionName: string | null;
+  coordinate: string;
+}
+
+/**
+ * Finds where the GraphQL in the file uses any of the coordinates, according
+ * to the previous schema, since that's the one the GraphQL was written for.
+ */
+function findUsagesInFile(
+  filePath: string,
+  text: string,
+  schema: GraphQLSchema,
+  coordinates: Set<string>
+): ChangeUsage[] {
+  const languageId = getLanguageIdForFile(filePath);
+  const parsedSources = languageId ? parseGraphQLSources(languageId, text) : [];
+  const usages: ChangeUsage[] = [];
+
+  parsedSources.forEach(({ source, document }) => {
+    const locator = getLocator(source.content);
+    const moduleName =
+      source.type === "TAG"
+        ? findModuleName(text, getTextOffset(text, source.start))
+        : null;
+
+    findSchemaUsages(schema, document).forEach(usage => {
+      if (!coordinates.has(usage.coordinate)) {
+        return;
+      }
+
+      const { line, column } = locator(usage.start);
+      const definition = document.definitions.find(
+        definition =>
+          !!definition.loc &&
+          definition.loc.start <= usage.start &&
+          usage.start < definition.loc.end
+      );
+
+      usages.push({
+        filePath,
+        ...getFileLocation(source, { line: line + 1, column: column + 1 }),
+        moduleName: moduleName
+          ? `${getFileModuleName(filePath)}.${moduleName}`
+          : getFileModuleName(filePath),
+        definitionName:
+          definition &&
+          (definition.kind === Kind.OPERATION_DEFINITION ||
+            definition.kind === Kind.FRAGMENT_DEFINITION) &&
+          definition.name
+            ? definition.name.value
+            : null,
+        coordinate: usage.coordinate
+      });
+    });
+  });
+
+  return usages;
+}
+
+async function findUsages(
+  event: SchemaReplacedEvent,
+  coordinates: Set<string>
+): Promise<ChangeUsage[]> {
+  const rootPath = workspace.rootPath || "";
+  const uris = await workspace.findFiles(
+    graphQLFilesGlob,
+    "**/node_modules/**"
+  );
+
+  return uris.reduce((acc: ChangeUsage[], uri) => {
+    if (
+      event.projectName &&
+      !getProjectNamesForFile(rootPath, uri.fsPath).includes(event.projectName)
+    ) {
+      return acc;
+    }
+
+    return [
+      ...acc,
+      ...findUsagesInFile(
+        uri.fsPath,
+        readWorkspaceFile(uri),
+        event.previousSchema,
+        coordinates
+      )
+    ];
+  }, []);
+}
+
+function formatUsage(usage: ChangeUsage): string {
+  const file = path.relative(workspace.rootPath || "", usage.filePath);
+  const definition = usage.definitionName ? `, ${usage.definitionName}` : "";
+
+  return `${file}:${usage.line}:${usage.column} (${usage.moduleName}${definition})`;
+}
+
+function writeReport(
+  outputChannel: OutputChannel,
+  event: SchemaReplacedEvent,
+  changes: SchemaChange[],
+  usages: ChangeUsage[]
+) {
+  const breakingCount = changes.filter(change => change.breaking).length;
+
+  outputChannel.clear();
+  outputChannel.appendLine(
+    `The schema${
+      event.projectName ? ` of project ${event.projectName}` : ""
+    } changed at ${new Date().toLocaleTimeString()}, with ${breakingCount} breaking and ${changes.length -
+      breakingCount} dangerous changes.`
+  );
+
+  changes.forEach(change => {
+    const changeUsages = usages.filter(
+      usage => usage.coordinate === change.coordinate
+    );
+
+    outputChannel.appendLine("");
+    outputChannel.appendLine(
+      `${change.breaking ? "Breaking" : "Dangerous"}: ${change.description}`
+    );
+
+    if (change.coordinate && changeUsages.length === 0) {
+      outputChannel.appendLine("  Not used by any operation or fragment.");
+    }
+
+    changeUsages.forEach(usage =>
+      outputChannel.appendLine(`  ${formatUsage(usage)}`)
+    );
+  });
+}
+
+async function reportChanges(
+  outputChannel: OutputChannel,
+  event: SchemaReplacedEvent
+) {
+  const changes = findSchemaChanges(event.previousSchema, event.schema);
+
+  if (changes.length === 0) {
+    return;
+  }
+
+  const usages = await findUsages(
+    event,
+    new Set(
+      changes.reduce(
+        (acc: string[], change) =>
+          change.coordinate ? [...acc, change.coordinate] : acc,
+        []
+      )
+    )
+  );
+
+  writeReport(outputChannel, event, changes, usages);
+
+  if (usages.length === 0) {
+    return;
+  }
+
+  const breakingCoordinates = changes.reduce(
+    (acc: string[], change) =>
+      change.breaking && change.coordinate ? [...acc, change.coordinate] : acc,
+    []
+  );
+  const broken = usages.filter(usage =>
+    breakingCoordinates.includes(usage.coordinate)
+  );
+
+  const message =
+    broken.length > 0
+      ? `The new GraphQL schema breaks ${broken.length} usage${
+          broken.length === 1 ? "" : "s"
+        } in your operations and fragments.`
+      : `The new GraphQL schema has dangerous changes to ${
+          usages.length
+        } usage${
+          usages.length === 1 ? "" : "s"
+        } in your operations and fragments.`;
+
+  const show = "Show report";
+  const picked = await (broken.length > 0
+    ? window.showWarningMessage(message, show)
+    : window.showInformationMessage(message, show));
+
+  if (picked === show) {
+    outputChannel.show(true);
+  }
+}
+
+export function initSchemaChanges(context: ExtensionContext): void {
+  const outputChannel = window.createOutputChannel("GraphQL Schema Changes");
+
+  context.subscriptions.push(
+    outputChannel,
+    onDidReplaceSchema(event => reportChanges(outputChannel, event))
+  );
+}
@@ -0,0 +1,374 @@
+import {
+  commands,
+  window,
+  EventEmitter,
+  ExtensionContext,
+  SnippetString,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState
+} from "vscode";
+import {
+  GraphQLArgument,
+  GraphQLField,
+  GraphQLInputField,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isLeafType,
+  isNonNullType,
+  isObjectType,
+  isUnionType
+} from "graphql";
+
+import { Framework, InsertGraphQLComponentType } from "./extensionTypes";
+import { addGraphQLComponent } from "./addGraphQLComponent";
+import { getSyntax } from "./extensionUtils";
+import { findExtensionNodeContents } from "./findGraphQLSources";
+import { getFrameworkForExtensionNode } from "./frameworks";
+import { getCurrentSchema, onDidChangeCurrentSchema } from "./schemaService";
+
+/**
+ * A tree of the current schema in the explorer sidebar. The root types come
+ * first, followed by every named type. Fields can be expanded into their
+ * arguments and the fields of their type, as deep as the schema goes.
+ */
+
+const viewId = "vscode-reasonml-graphql.schema-explorer";
+
+type SchemaNode =
+  | {
+      kind: "root";
+      operation: InsertGraphQLComponentType;
+      type: GraphQLObjectType;
+    }
+  | { kind: "types"; types: GraphQLNamedType[] }
+  | { kind: "type"; type: GraphQLNamedType }
+  | {
+      kind: "field";
+      field: GraphQLField<any, any> | GraphQLInputField;
+      /**
+       * Set for the fields of root types, which operations can be generated
+       * for.
+       */
+      operation?: InsertGraphQLComponentType;
+    }
+  | { kind: "argument"; argument: GraphQLArgument }
+  | { kind: "value"; name: string; tooltip?: string };
+
+const treeChanged: EventEmitter<SchemaNode | undefined> = new EventEmitter();
+
+let schema: GraphQLSchema | null = null;
+
+const isIntrospectionType = (type: GraphQLNamedType) =>
+  type.name.startsWith("__");
+
+function getTypeKind(type: GraphQLNamedType): string {
+  if (isObjectType(type)) {
+    return "type";
+  }
+
+  if (isInterfaceType(type)) {
+    return "interface";
+  }
+
+  if (isUnionType(type)) {
+    return "union";
+  }
+
+  if (isEnumType(type)) {
+    return "enum";
+  }
+
+  return isInputObjectType(type) ? "input" : "scalar";
+}
+
+const isDeprecated = (field: GraphQLField<any, any> | GraphQLInputField) =>
+  "isDeprecated" in field && field.isDeprecated;
+
+function makeTooltip(
+  description: string | null | undefined,
+  deprecationReason?: string | null
+): string | undefined {
+  const lines = [
+    ...(description ? [description] : []),
+    ...(deprecationReason ? [`Deprecated: ${deprecationReason}`] : [])
+  ];
+
+  return lines.length > 0 ? lines.join("\n\n") : undefined;
+}
+
+function getRootNodes(currentSchema: GraphQLSchema): SchemaNode[] {
+  const roots: Array<[
+    InsertGraphQLComponentType,
+    GraphQLObjectType | null | undefined
+  ]> = [
+    ["Query", currentSchema.getQueryType()],
+    ["Mutation", currentSchema.getMutationType()],
+    ["Subscription", currentSchema.getSubscriptionType()]
+  ];
+
+  const rootNodes = roots.reduce(
+    (acc: SchemaNode[], [operation, type]) =>
+      type ? [...acc, { kind: "root" as const, operation, type }] : acc,
+    []
+  );
+
+  return [
+    ...rootNodes,
+    {
+      kind: "types",
+      types: Object.values(currentSchema.getTypeMap())
+        .filter(type => !isIntrospectionType(type))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }
+  ];
+}
+
+function getTypeChildren(type: GraphQLNamedType): SchemaNode[] {
+  if (isObjectType(type) || isInterfaceType(type) || isInputObjectType(type)) {
+    return Object.values(type.getFields()).map(
+      (field): SchemaNode => ({ kind: "field", field })
+    );
+  }
+
+  if (isUnionType(type)) {
+    return type.getTypes().map(
+      (possibleType): SchemaNode => ({
+        kind: "type",
+        type: possibleType
+      })
+    );
+  }
+
+  if (isEnumType(type)) {
+    return type.getValues().map(
+      (value): SchemaNode => ({
+        kind: "value",
+        name: value.name,
+        tooltip: makeTooltip(value.description, value.deprecationReason)
+      })
+    );
+  }
+
+  return [];
+}
+
+function getChildren(node: SchemaNode): SchemaNode[] {
+  switch (node.kind) {
+    case "root":
+      return Object.values(node.type.getFields()).map(
+        (field): SchemaNode => ({
+          kind: "field",
+          field,
+          operation: node.operation
+        })
+      );
+    case "types":
+      return node.types.map((type): SchemaNode => ({ kind: "type", type }));
+    case "type":
+      return getTypeChildren(node.type);
+    case "field":
+      return [
+        ...("args" in node.field ? node.field.args : []).map(
+          (argument): SchemaNode => ({ kind: "argument", argument })
+        ),
+        ...getTypeChildren(getNamedType(node.field.type))
+      ];
+    case "argument":
+    case "value":
+      return [];
+  }
+}
+
+function getTreeItem(node: SchemaNode): TreeItem {
+  const hasChildren = getChildren(node).length > 0;
+  const item = new TreeItem(
+    "",
+    hasChildren
+      ? TreeItemCollapsibleState.Collapsed
+      : TreeItemCollapsibleState.None
+  );
+
+  switch (node.kind) {
+    case "root":
+      item.label = node.operation;
+      item.description = node.type.name;
+      item.tooltip = makeTooltip(node.type.description);
+      break;
+    case "types":
+      item.label = "Types";
+      item.description = `${node.types.length}`;
+      break;
+    case "type":
+      item.label = node.type.name;
+      item.description = getTypeKind(node.type);
+      item.tooltip = makeTooltip(node.type.description);
+      item.contextValue = isObjectType(node.type) ? "objectType" : "type";
+      break;
+    case "field": {
+      const deprecated = isDeprecated(node.field);
+
+      item.label = node.field.name;
+      item.description = `${node.field.type.toString()}${
+        deprecated ? " (deprecated)" : ""
+      }`;
+      item.tooltip = makeTooltip(
+        node.field.description,
+        "deprecationReason" in node.field ? node.field.deprecationReason : null
+      );
+      item.contextValue = !("args" in node.field)
+        ? "inputField"
+        : node.operation
+        ? `rootField.${node.operation}`
+        : "field";
+      break;
+    }
+    case "argument":
+      item.label = `(${node.argument.name})`;
+      item.description = node.argument.type.toString();
+      item.tooltip = makeTooltip(node.argument.description);
+      break;
+    case "value":
+      item.label = node.name;
+      item.tooltip = node.tooltip;
+      break;
+  }
+
+  return item;
+}
+
+const treeDataProvider: TreeDataProvider<SchemaNode> = {
+  onDidChangeTreeData: treeChanged.event,
+  getTreeItem,
+  getChildren(node?: SchemaNode) {
+    if (!node) {
+      return schema ? getRootNodes(schema) : [];
+    }
+
+    return getChildren(node);
+  }
+};
+
+async function refresh() {
+  schema = await getCurrentSchema();
+  treeChanged.fire(undefined);
+}
+
+/**
+ * Inserts the field at the cursor as a snippet, with placeholders for its
+ * required arguments and its selection set.
+ */
+async function insertField(node: SchemaNode) {
+  const textEditor = window.activeTextEditor;
+
+  if (!textEditor || node.kind !== "field" || !("args" in node.field)) {
+    return;
+  }
+
+  const { field } = node;
+  const requiredArgs = field.args.filter(
+    arg => isNonNullType(arg.type) && arg.defaultValue === undefined
+  );
+
+  const snippet = new SnippetString(field.name);
+
+  if (requiredArgs.length > 0) {
+    snippet.appendText("(");
+    requiredArgs.forEach((arg, i) => {
+      snippet.appendText(`${i > 0 ? ", " : ""}${arg.name}: `);
+      snippet.appendPlaceholder(`$${arg.name}`);
+    });
+    snippet.appendText(")");
+  }
+
+  const namedType = getNamedType(field.type);
+
+  if (!isLeafType(namedType)) {
+    snippet.appendText(" {\n\t");
+    snippet.appendTabstop(0);
+    snippet.appendText("\n}");
+  }
+
+  await textEditor.insertSnippet(snippet);
+}
+
+/**
+ * Generates for the framework used in the active file. Files using both, or
+ * neither, let the user pick.
+ */
+async function pickFramework(): Promise<Framework | null> {
+  const textEditor = window.activeTextEditor;
+  const syntax = textEditor ? getSyntax(textEditor.document.languageId) : null;
+
+  if (!textEditor || !syntax) {
+    window.showErrorMessage(
+      "Open the Reason or ReScript file to generate the code in first."
+    );
+    return null;
+  }
+
+  const frameworks = findExtensionNodeContents(
+    textEditor.document.getText(),
+    syntax
+  ).reduce((acc: Framework[], { extensionNode }) => {
+    const framework = getFrameworkForExtensionNode(extensionNode);
+    return framework && !acc.includes(framework) ? [...acc, framework] : acc;
+  }, []);
+
+  if (frameworks.length === 1) {
+    return frameworks[0];
+  }
+
+  const picked = await window.showQuickPick(["ReasonRelay", "graphql_ppx"], {
+    placeHolder: "Select the framework to generate for"
+  });
+
+  return (picked as Framework | undefined) || null;
+}
+
+async function generateFragment(node: SchemaNode) {
+  const framework = node.kind === "type" ? await pickFramework() : null;
+
+  if (node.kind === "type" && framework) {
+    await addGraphQLComponent(framework, "Fragment", false, node.type.name);
+  }
+}
+
+async function generateOperation(node: SchemaNode) {
+  const framework =
+    node.kind === "field" && node.operation ? await pickFramework() : null;
+
+  if (node.kind === "field" && node.operation && framework) {
+    await addGraphQLComponent(
+      framework,
+      node.operation,
+      false,
+      node.field.name
+    );
+  }
+}
+
+export function initSchemaExplorer(context: ExtensionContext): void {
+  context.subscriptions.push(
+    treeChanged,
+    window.registerTreeDataProvider(viewId, treeDataProvider),
+    onDidChangeCurrentSchema(refresh),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.schema-explorer.insert-field",
+      insertField
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.schema-explorer.generate-fragment",
+      generateFragment
+    ),
+    commands.registerCommand(
+      "vscode-reasonml-graphql.schema-explorer.generate-operation",
+      generateOperation
+    )
+  );
+}
@@ -1,16 +1,57 @@
-import { SchemaLoader } from "./extensionTypes";
+import { SchemaLoader, RawSchema } from "./extensionTypes";
 import * as fs from "fs";
 import * as path from "path";
-import { getGraphQLConfig } from "graphql-config";
+import * as glob from "glob";
+import { loadGraphQLConfig, getSchemaPointers } from "./graphqlConfig";
+import {
+  getEndpointNames,
+  getDefaultEndpointName,
+  refreshSchemaFile,
+  shouldIntrospectMissingSchema
+} from "./endpoints";
+import { getSchemaType } from "./extensionUtils";
 
-const getSchemaType = (schemaPath: string): "json" | "sdl" | null => {
-  const schemaExtName = path.extname(schemaPath);
+/**
+ * Expands schema pointers, which are paths or globs, to the schema files
+ * they point to.
+ */
+const expandSchemaPointers = (pointers: Array<string>): Array<string> =>
+  pointers.reduce((acc: Array<string>, pointer: string) => {
+    glob
+      .sync(pointer, { nodir: true, absolute: true })
+      .filter(file => getSchemaType(file) && !acc.includes(file))
+      .forEach(file => acc.push(file));
 
-  return schemaExtName === ".graphql"
-    ? "sdl"
-    : schemaExtName === ".json"
-    ? "json"
-    : null;
+    return acc;
+  }, []);
+
+/**
+ * Reads a schema from either a single introspection file, or any number of
+ * SDL files which are merged into one schema.
+ */
+const readSchemaFiles = (
+  files: Array<string>,
+  paths: Array<string>
+): RawSchema => {
+  if (files.every(file => getSchemaType(file) === "sdl")) {
+    return {
+      type: "sdl",
+      content: files.map(file => fs.readFileSync(file, "utf8")).join("\n"),
+      paths
+    };
+  }
+
+  if (files.length === 1) {
+    return {
+      type: "json",
+      content: fs.readFileSync(files[0], "utf8"),
+      paths
+    };
+  }
+
+  throw new Error(
+    "The schema must be either a single .json introspection file, or only SDL files."
+  );
 };
 
 /**
@@ -27,9 +68,12 @@ export const graphql_ppx_loader: SchemaLoader = async (
     return null;
   }
 
+  const schemaPath = path.join(rootPath, schemaFile);
+
   return {
     type: "json",
-    content: fs.readFileSync(path.join(rootPath, schemaFile), "utf8")
+    content: fs.readFileSync(schemaPath, "utf8"),
+    paths: [schemaPath]
   };
 };
 
@@ -37,8 +81,10 @@ export const rawSchemaFileLoader: SchemaLoader = async (
   rootPath: string,
   filesInRoot: Array<string>
 ) => {
-  const schemaFile = filesInRoot.find(
-    f => f === "schema.graphql" || f === "schema.json"
+  const schemaFile = filesInRoot.find(f =>
+    ["schema.graphql", "schema.graphqls", "schema.gql", "schema.json"].includes(
+      f
+    )
   );
 
   if (!schemaFile) {
@@ -46,40 +92,91 @@ export const rawSchemaFileLoader: SchemaLoader = async (
   }
 
   const schemaType = getSchemaType(schemaFile);
+  const schemaPath = path.join(rootPath, schemaFile);
 
   return schemaType
     ? {
         type: schemaType,
-        content: fs.readFileSync(path.join(rootPath, schemaFile), "utf8")
+        content: fs.readFileSync(schemaPath, "utf8"),
+        paths: [schemaPath]
       }
     : null;
 };
 
-const graphqlConfigLoader: SchemaLoader = async (rootPath: string) => {
+const graphqlConfigLoader: SchemaLoader = async (
+  rootPath: string,
+  _filesInRoot: Array<string>,
+  projectName?: string
+) => {
+  let schemaPointers: Array<string>;
+
   try {
-    const schemaPath = getGraphQLConfig(rootPath).getProjectConfig().schemaPath;
+    schemaPointers = getSchemaPointers(
+      loadGraphQLConfig(rootPath).getProjectConfig(projectName)
+    );
+  } catch {
+    return null;
+  }
 
-    if (!schemaPath) {
-      return null;
-    }
+  const schemaFiles = expandSchemaPointers(schemaPointers);
 
-    const schemaType = getSchemaType(schemaPath);
+  if (schemaFiles.length === 0) {
+    return null;
+  }
 
-    if (!schemaType) {
-      return null;
-    }
+  return readSchemaFiles(schemaFiles, schemaPointers);
+};
 
-    return {
-      content: fs.readFileSync(schemaPath, "utf8"),
-      type: schemaType
-    };
+/**
+ * Introspects the endpoint configured in the graphql-config when its schema
+ * file doesn't exist yet, and writes the result to the schema path. Only
+ * done when the config sets `extensions.introspectMissingSchema`. Errors
+ * are not swallowed here, since an endpoint that's explicitly configured but
+ * can't be reached is something the user should know about.
+ */
+const graphqlConfigEndpointLoader: SchemaLoader = async (
+  rootPath: string,
+  _filesInRoot: Array<string>,
+  projectName?: string
+) => {
+  let schemaPath: string | null;
+
+  try {
+    schemaPath = loadGraphQLConfig(rootPath).getProjectConfig(projectName)
+      .schemaPath;
   } catch {
     return null;
   }
+
+  if (
+    !schemaPath ||
+    fs.existsSync(schemaPath) ||
+    !shouldIntrospectMissingSchema(rootPath, projectName)
+  ) {
+    return null;
+  }
+
+  const schemaType = getSchemaType(schemaPath);
+  const endpointName = getDefaultEndpointName(
+    getEndpointNames(rootPath, projectName)
+  );
+
+  if (!schemaType || !endpointName) {
+    return null;
+  }
+
+  await refreshSchemaFile(rootPath, projectName, endpointName);
+
+  return {
+    content: fs.readFileSync(schemaPath, "utf8"),
+    type: schemaType,
+    paths: [schemaPath]
+  };
 };
 
 export const loaders: Array<SchemaLoader> = [
   graphqlConfigLoader,
+  graphqlConfigEndpointLoader,
   graphql_ppx_loader,
   rawSchemaFileLoader
 ];
@@ -0,0 +1,456 @@
+import * as path from "path";
+import {
+  workspace,
+  window,
+  ExtensionContext,
+  Disposable,
+  EventEmitter,
+  FileSystemWatcher,
+  RelativePattern,
+  StatusBarAlignment,
+  StatusBarItem,
+  TextDocument,
+  TextEditor
+} from "vscode";
+import { GraphQLSchema } from "graphql";
+import { loadRawSchema, parseSchema } from "./loadSchema";
+import {
+  configFileNames,
+  getProjects,
+  getProjectNamesForFile
+} from "./graphqlConfig";
+
+/**
+ * The schema service keeps the parsed schema of each graphql-config project
+ * in memory, so commands don't have to read and build the full schema each
+ * time they need it. A schema is reloaded whenever its resolved schema file
+ * (or anything that could change which file is resolved) changes on disk.
+ */
+
+type SchemaState =
+  | { status: "loading" }
+  | { status: "loaded"; paths: Array<string> }
+  | { status: "missing" }
+  | { status: "failed"; error: string };
+
+interface ProjectSchema {
+  load: Promise<GraphQLSchema | null>;
+  state: SchemaState;
+  schemaPaths: Array<string>;
+}
+
+const reloadCommand = "vscode-reasonml-graphql.reload-schema";
+
+/**
+ * Files that decide which schema file the loaders resolve.
+ */
+const schemaConfigGlob = `{${[
+  ...configFileNames,
+  "graphql_schema.json",
+  "schema.graphql",
+  "schema.graphqls",
+  "schema.gql",
+  "schema.json"
+].join(",")}}`;
+
+/**
+ * Configs without projects have a single schema, which is cached under this
+ * key.
+ */
+const defaultProjectKey = "";
+
+const projectSchemas: Map<string, ProjectSchema> = new Map();
+const projectChoices: Map<string, string> = new Map();
+const schemaWatchers: Map<string, FileSystemWatcher> = new Map();
+const pendingReloads: Set<string> = new Set();
+
+const currentSchemaChanged: EventEmitter<void> = new EventEmitter();
+
+/**
+ * Fires when the current schema changes, either because it was reloaded or
+ * because the schema of another project became the current one.
+ */
+export const onDidChangeCurrentSchema = currentSchemaChanged.event;
+
+export interface SchemaReplacedEvent {
+  projectName?: string;
+  previousSchema: GraphQLSchema;
+  schema: GraphQLSchema;
+}
+
+const schemaReplaced: EventEmitter<SchemaReplacedEvent> = new EventEmitter();
+
+/**
+ * Fires when a schema that was loaded is reloaded, for instance because its
+ * schema file changed.
+ */
+export const onDidReplaceSchema = schemaReplaced.event;
+
+let statusBarItem: StatusBarItem | null = null;
+let statusProjectKey: string = defaultProjectKey;
+let reloadTimeout: NodeJS.Timeout | null = null;
+
+function getRootPath(): string {
+  return workspace.rootPath || "";
+}
+
+function toProjectKey(projectName: string | undefined): string {
+  return projectName || defaultProjectKey;
+}
+
+function renderStatus() {
+  if (!statusBarItem) {
+    return;
+  }
+
+  const projectSchema = projectSchemas.get(statusProjectKey);
+
+  if (!projectSchema) {
+    statusBarItem.hide();
+    return;
+  }
+
+  const { state } = projectSchema;
+  const label =
+    statusProjectKey === defaultProjectKey
+      ? "GraphQL"
+      : `GraphQL (${statusProjectKey})`;
+
+  switch (state.status) {
+    case "loading":
+      statusBarItem.text = `$(sync~spin) ${label} schema`;
+      statusBarItem.tooltip = "Loading GraphQL schema...";
+      break;
+    case "loaded":
+      statusBarItem.text = `$(check) ${label}: ${
+        state.paths.length === 1
+          ? path.basename(state.paths[0])
+          : `${state.paths.length} schema sources`
+      }`;
+      statusBarItem.tooltip = `Loaded GraphQL schema from ${state.paths
+        .map(schemaPath => path.relative(getRootPath(), schemaPath))
+        .join(", ")}. Click to reload.`;
+      break;
+    case "missing":
+      statusBarItem.text = `$(circle-slash) ${label} schema`;
+      statusBarItem.tooltip = "No GraphQL schema found. Click to reload.";
+      break;
+    case "failed":
+      statusBarItem.text = `$(alert) ${label} schema`;
+      statusBarItem.tooltip = `Failed loading GraphQL schema: ${state.error}. Click to reload.`;
+      break;
+  }
+
+  statusBarItem.show();
+}
+
+/**
+ * Splits an absolute path or glob into the directory before the first glob
+ * segment, and the pattern relative to that directory.
+ */
+function toRelativePattern(schemaPath: string): RelativePattern {
+  const segments = schemaPath.split(/[\\/]/);
+  const firstGlobSegment = segments.findIndex(segment =>
+    /[*?[\]{}!]/.test(segment)
+  );
+
+  return firstGlobSegment === -1
+    ? new RelativePattern(path.dirname(schemaPath), path.basename(schemaPath))
+    : new RelativePattern(
+        segments.slice(0, firstGlobSegment).join(path.sep) || path.sep,
+        segments.slice(firstGlobSegment).join("/")
+      );
+}
+
+function watchSchemaPath(schemaPath: string) {
+  if (schemaWatchers.has(schemaPath)) {
+    return;
+  }
+
+  const watcher = workspace.createFileSystemWatcher(
+    toRelativePattern(schemaPath)
+  );
+
+  const onEvent = () =>
+    projectSchemas.forEach((projectSchema, projectKey) => {
+      if (projectSchema.schemaPaths.includes(schemaPath)) {
+        scheduleReload(projectKey);
+      }
+    });
+
+  watcher.onDidChange(onEvent);
+  watcher.onDidCreate(onEvent);
+  watcher.onDidDelete(onEvent);
+
+  schemaWatchers.set(schemaPath, watcher);
+}
+
+function loadSchema(projectKey: string): ProjectSchema {
+  const previous = projectSchemas.get(projectKey);
+  const projectSchema: ProjectSchema = {
+    load: Promise.resolve(null),
+    state: { status: "loading" },
+    schemaPaths: []
+  };
+
+  const isCurrent = () => projectSchemas.get(projectKey) === projectSchema;
+
+  const setState = (state: SchemaState) => {
+    projectSchema.state = state;
+
+    if (isCurrent()) {
+      renderStatus();
+    }
+  };
+
+  projectSchema.load = (async () => {
+    try {
+      const rawSchema = await loadRawSchema(
+        getRootPath(),
+        projectKey === defaultProjectKey ? undefined : projectKey
+      );
+
+      if (!rawSchema) {
+        setState({ status: "missing" });
+        return null;
+      }
+
+      const schema = parseSchema(rawSchema);
+
+      projectSchema.schemaPaths = rawSchema.paths;
+      rawSchema.paths.forEach(watchSchemaPath);
+      setState({ status: "loaded", paths: rawSchema.paths });
+
+      if (isCurrent() && projectKey === statusProjectKey) {
+        currentSchemaChanged.fire();
+      }
+
+      const previousSchema =
+        previous && previous.state.status === "loaded"
+          ? await previous.load
+          : null;
+
+      if (previousSchema && isCurrent()) {
+        schemaReplaced.fire({
+          projectName:
+            projectKey === defaultProjectKey ? undefined : projectKey,
+          previousSchema,
+          schema
+        });
+      }
+
+      return schema;
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      setState({ status: "failed", error });
+
+      if (isCurrent()) {
+        window.showErrorMessage(`Could not load GraphQL schema: ${error}`);
+      }
+
+      return null;
+    }
+  })();
+
+  projectSchemas.set(projectKey, projectSchema);
+  renderStatus();
+
+  return projectSchema;
+}
+
+/**
+ * Reloading is debounced, since saving a schema file often triggers
+ * several file system events in quick succession.
+ */
+function scheduleReload(projectKey: string) {
+  pendingReloads.add(projectKey);
+
+  if (reloadTimeout) {
+    clearTimeout(reloadTimeout);
+  }
+
+  reloadTimeout = setTimeout(() => {
+    reloadTimeout = null;
+    pendingReloads.forEach(loadSchema);
+    pendingReloads.clear();
+  }, 100);
+}
+
+function onConfigChanged() {
+  projectChoices.clear();
+  projectSchemas.forEach((_, projectKey) => scheduleReload(projectKey));
+}
+
+/**
+ * Finds the project of a file without asking the user, which is possible
+ * when there's no ambiguity or the user has already picked a project for
+ * the file.
+ */
+function findProjectName(
+  filePath: string
+): { found: true; projectName?: string } | { found: false } {
+  const projectNames = getProjectNamesForFile(getRootPath(), filePath);
+
+  if (projectNames.length === 0) {
+    return { found: true };
+  }
+
+  if (projectNames.length === 1) {
+    return { found: true, projectName: projectNames[0] };
+  }
+
+  const chosen = projectChoices.get(filePath);
+
+  return chosen && projectNames.includes(chosen)
+    ? { found: true, projectName: chosen }
+    : { found: false };
+}
+
+/**
+ * Resolves which graphql-config project a file belongs to, asking the user
+ * to pick one when several projects match. Resolves null if the user
+ * dismisses the pick.
+ */
+export async function resolveProjectName(
+  filePath: string
+): Promise<string | undefined | null> {
+  const found = findProjectName(filePath);
+
+  if (found.found) {
+    return found.projectName;
+  }
+
+  const projectName = await window.showQuickPick(
+    getProjectNamesForFile(getRootPath(), filePath),
+    {
+      placeHolder: `Select GraphQL project for ${path.basename(filePath)}`
+    }
+  );
+
+  if (!projectName) {
+    return null;
+  }
+
+  projectChoices.set(filePath, projectName);
+  return projectName;
+}
+
+export function getSchema(projectName?: string): Promise<GraphQLSchema | null> {
+  const projectKey = toProjectKey(projectName);
+  const projectSchema =
+    projectSchemas.get(projectKey) || loadSchema(projectKey);
+
+  if (statusProjectKey !== projectKey) {
+    statusProjectKey = projectKey;
+    currentSchemaChanged.fire();
+  }
+
+  renderStatus();
+
+  return projectSchema.load;
+}
+
+/**
+ * The schema of the project last used, which is the one the status bar
+ * shows.
+ */
+export function getCurrentSchema(): Promise<GraphQLSchema | null> {
+  return getSchema(
+    statusProjectKey === defaultProjectKey ? undefined : statusProjectKey
+  );
+}
+
+export async function getSchemaForDocument(
+  document: TextDocument
+): Promise<GraphQLSchema | null> {
+  const projectName = await resolveProjectName(document.fileName);
+
+  if (projectName === null) {
+    return null;
+  }
+
+  return getSchema(projectName);
+}
+
+/**
+ * The schema of the project of a file, for what runs without the user asking
+ * for it, like code actions and views. Unlike getSchemaForDocument it never
+ * asks the user to pick a project and leaves the current project as is, so
+ * it resolves null when the project of the file is ambiguous.
+ */
+export function findSchemaForFile(
+  filePath: string
+): Promise<GraphQLSchema | null> {
+  const found = findProjectName(filePath);
+
+  if (!found.found) {
+    return Promise.resolve(null);
+  }
+
+  const projectKey = toProjectKey(found.projectName);
+  return (projectSchemas.get(projectKey) || loadSchema(projectKey)).load;
+}
+
+export function reloadSchema(): Promise<Array<GraphQLSchema | null>> {
+  projectChoices.clear();
+
+  if (projectSchemas.size === 0) {
+    return getSchema().then(schema => [schema]);
+  }
+
+  return Promise.all(
+    Array.from(projectSchemas.keys()).map(
+      projectKey => loadSchema(projectKey).load
+    )
+  );
+}
+
+function onActiveEditorChanged(editor: TextEditor | undefined) {
+  if (!editor || editor.document.uri.scheme !== "file") {
+    return;
+  }
+
+  const found = findProjectName(editor.document.fileName);
+
+  if (found.found) {
+    getSchema(found.projectName);
+  }
+}
+
+export function initSchemaService(context: ExtensionContext): void {
+  statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
+  statusBarItem.command = reloadCommand;
+
+  const configWatcher = workspace.createFileSystemWatcher(
+    new RelativePattern(getRootPath(), schemaConfigGlob)
+  );
+
+  configWatcher.onDidChange(onConfigChanged);
+  configWatcher.onDidCreate(onConfigChanged);
+  configWatcher.onDidDelete(onConfigChanged);
+
+  context.subscriptions.push(
+    statusBarItem,
+    configWatcher,
+    currentSchemaChanged,
+    schemaReplaced,
+    window.onDidChangeActiveTextEditor(onActiveEditorChanged),
+    new Disposable(() => {
+      schemaWatchers.forEach(watcher => watcher.dispose());
+      schemaWatchers.clear();
+      projectSchemas.clear();
+      projectChoices.clear();
+      pendingReloads.clear();
+
+      if (reloadTimeout) {
+        clearTimeout(reloadTimeout);
+      }
+    })
+  );
+
+  if (window.activeTextEditor) {
+    onActiveEditorChanged(window.activeTextEditor);
+  } else if (!getProjects(getRootPath())) {
+    getSchema();
+  }
+}
@@ -0,0 +1,349 @@
+import {
+  BreakingChange,
+  DangerousChange,
+  DocumentNode,
+  GraphQLDeprecatedDirective,
+  GraphQLSchema,
+  InputValueDefinitionNode,
+  Kind,
+  Location,
+  NamedTypeNode,
+  TypeInfo,
+  TypeNode,
+  findBreakingChanges,
+  findDangerousChanges,
+  getDirectiveValues,
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  visit,
+  visitWithTypeInfo
+} from "graphql";
+
+/**
+ * Finds what parts of the schema a GraphQL document uses, each identified by
+ * a coordinate like `User`, `User.name`, `Query.user(id)` or `Role.ADMIN`.
+ */
+
+export type SchemaUsageKind =
+  | "type"
+  | "field"
+  | "argument"
+  | "inputField"
+  | "enumValue";
+
+export interface SchemaUsage {
+  kind: SchemaUsageKind;
+  coordinate: string;
+  /**
+   * The name of the type the field, argument, input field or enum value
+   * belongs to, or the type itself.
+   */
+  typeName: string;
+  /**
+   * The offsets in the document of the node using the schema.
+   */
+  start: number;
+  end: number;
+}
+
+export function findSchemaUsages(
+  schema: GraphQLSchema,
+  document: DocumentNode
+): SchemaUsage[] {
+  const usages: SchemaUsage[] = [];
+  const typeInfo = new TypeInfo(schema);
+
+  const addUsage = (
+    kind: SchemaUsageKind,
+    typeName: string,
+    coordinate: string,
+    loc: Location | undefined
+  ) => {
+    if (loc) {
+      usages.push({
+        kind,
+        coordinate,
+        typeName,
+        start: loc.start,
+        end: loc.end
+      });
+    }
+  };
+
+  const addTypeCondition = (node: { typeCondition?: NamedTypeNode }) => {
+    if (node.typeCondition) {
+      const { name } = node.typeCondition;
+      addUsage("type", name.value, name.value, name.loc);
+    }
+  };
+
+  visit(
+    document,
+    visitWithTypeInfo(typeInfo, {
+      Field(node) {
+        const parentType = typeInfo.getParentType();
+        const fieldDef = typeInfo.getFieldDef();
+
+        if (!parentType || !fieldDef) {
+          return;
+        }
+
+        const typeName = getNamedType(fieldDef.type).name;
+
+        addUsage(
+          "field",
+          parentType.name,
+          `${parentType.name}.${fieldDef.name}`,
+          node.name.loc
+        );
+        addUsage("type", typeName, typeName, node.name.loc);
+      },
+      Argument(node) {
+        const parentType = typeInfo.getParentType();
+        const fieldDef = typeInfo.getFieldDef();
+        const argument = typeInfo.getArgument();
+
+        // Directive arguments aren't part of the types of the schema
+        if (typeInfo.getDirective() || !parentType || !fieldDef || !argument) {
+          return;
+        }
+
+        addUsage(
+          "argument",
+          parentType.name,
+          `${parentType.name}.${fieldDef.name}(${argument.name})`,
+          node.name.loc
+        );
+      },
+      ObjectField(node) {
+        const parentType = typeInfo.getParentInputType();
+        const namedParentType = parentType ? getNamedType(parentType) : null;
+
+        if (namedParentType && isInputObjectType(namedParentType)) {
+          addUsage(
+            "inputField",
+            namedParentType.name,
+            `${namedParentType.name}.${node.name.value}`,
+            node.name.loc
+          );
+        }
+      },
+      EnumValue(node) {
+        const inputType = typeInfo.getInputType();
+        const enumType = inputType ? getNamedType(inputType) : null;
+
+        if (enumType && isEnumType(enumType)) {
+          addUsage(
+            "enumValue",
+            enumType.name,
+            `${enumType.name}.${node.value}`,
+            node.loc
+          );
+        }
+      },
+      // Input objects passed inline need the fields the input type requires
+      ObjectValue(node) {
+        const inputType = typeInfo.getInputType();
+        const namedType = inputType ? getNamedType(inputType) : null;
+
+        if (namedType && isInputObjectType(namedType)) {
+          addUsage("type", namedType.name, namedType.name, node.loc);
+        }
+      },
+      VariableDefinition(node) {
+        const { name } = getNamedTypeNode(node.type);
+        addUsage("type", name.value, name.value, name.loc);
+      },
+      InlineFragment: addTypeCondition,
+      FragmentDefinition: addTypeCondition
+    })
+  );
+
+  return usages;
+}
+
+function getNamedTypeNode(type: TypeNode): NamedTypeNode {
+  return type.kind === Kind.LIST_TYPE || type.kind === Kind.NON_NULL_TYPE
+    ? getNamedTypeNode(type.type)
+    : type;
+}
+
+export interface Deprecation {
+  reason: string;
+  /**
+   * The field to use instead, when the reason names another field of the
+   * same type, like `Use fullName instead.`.
+   */
+  replacement: string | null;
+}
+
+/**
+ * The schema can only deprecate arguments and input fields through the
+ * directive in its SDL, so that's read from the definition.
+ */
+function getDirectiveDeprecationReason(
+  astNode: InputValueDefinitionNode | null | undefined
+): string | null {
+  const deprecated = astNode
+    ? getDirectiveValues(GraphQLDeprecatedDirective, astNode)
+    : undefined;
+
+  return deprecated ? deprecated.reason : null;
+}
+
+function findReplacement(
+  schema: GraphQLSchema,
+  usage: SchemaUsage,
+  reason: string
+): string | null {
+  const type = schema.getType(usage.typeName);
+  const match = reason.match(/\b(?:use|replaced by)\s+`?(\w+)`?/i);
+
+  if (
+    !match ||
+    !type ||
+    !(isObjectType(type) || isInterfaceType(type)) ||
+    usage.coordinate === `${type.name}.${match[1]}`
+  ) {
+    return null;
+  }
+
+  const field = type.getFields()[match[1]];
+  return field && !field.isDeprecated ? field.name : null;
+}
+
+/**
+ * Looks up whether what the usage uses is deprecated in the schema.
+ */
+export function getDeprecation(
+  schema: GraphQLSchema,
+  usage: SchemaUsage
+): Deprecation | null {
+  const type = schema.getType(usage.typeName);
+  const [, name, argumentName] =
+    usage.coordinate.match(/^\w+\.(\w+)(?:\((\w+)\))?$/) || [];
+
+  if (!type || !name) {
+    return null;
+  }
+
+  let reason: string | null | undefined = null;
+
+  if (usage.kind === "field" && (isObjectType(type) || isInterfaceType(type))) {
+    const field = type.getFields()[name];
+    reason = field && field.isDeprecated ? field.deprecationReason : null;
+  } else if (
+    usage.kind === "argument" &&
+    (isObjectType(type) || isInterfaceType(type))
+  ) {
+    const field = type.getFields()[name];
+    const argument = field
+      ? field.args.find(arg => arg.name === argumentName)
+      : null;
+    reason = argument ? getDirectiveDeprecationReason(argument.astNode) : null;
+  } else if (usage.kind === "inputField" && isInputObjectType(type)) {
+    const field = type.getFields()[name];
+    reason = field ? getDirectiveDeprecationReason(field.astNode) : null;
+  } else if (usage.kind === "enumValue" && isEnumType(type)) {
+    const value = type.getValue(name);
+    reason = value && value.isDeprecated ? value.deprecationReason : null;
+  }
+
+  if (reason === null || reason === undefined) {
+    return null;
+  }
+
+  return {
+    reason,
+    replacement:
+      usage.kind === "field" ? findReplacement(schema, usage, reason) : null
+  };
+}
+
+export interface SchemaChange {
+  breaking: boolean;
+  description: string;
+  /**
+   * The schema coordinate that operations using the change would use, like
+   * `User`, `User.name`, `Query.user(id)` or `Role.ADMIN`. Changes to
+   * directives don't have one.
+   */
+  coordinate: string | null;
+}
+
+const coordinatePatterns: Array<[RegExp, (...names: string[]) => string]> = [
+  [
+    /^An? (?:required|optional) arg \w+ on (\w+)\.(\w+) was added\.$/,
+    (type, field) => `${type}.${field}`
+  ],
+  [
+    /^(\w+)\.(\w+) arg (\w+) /,
+    (type, field, arg) => `${type}.${field}(${arg})`
+  ],
+  [
+    /^(\w+)\.(\w+) (?:was removed|changed type)/,
+    (type, field) => `${type}.${field}`
+  ],
+  [
+    /^An? (?:required|optional) field \w+ on input type (\w+) was added\.$/,
+    type => type
+  ],
+  [
+    /^(\w+) was removed from enum type (\w+)\.$/,
+    (value, type) => `${type}.${value}`
+  ],
+  [/^\w+ was added to enum type (\w+)\.$/, type => type],
+  [/^(\w+) was removed from union type \w+\.$/, type => type],
+  [/^\w+ was added to union type (\w+)\.$/, type => type],
+  [/^(\w+) added to interfaces implemented by \w+\.$/, type => type],
+  [/^(\w+) no longer implements interface \w+\.$/, type => type],
+  [/^(\w+) (?:was removed|changed from)/, type => type]
+];
+
+/**
+ * graphql-js only describes changes in prose, so the coordinate is taken from
+ * the description. The descriptions are those of graphql 14, and the tests
+ * check each pattern against them.
+ */
+function getChangeCoordinate(
+  change: BreakingChange | DangerousChange
+): string | null {
+  if (change.type.startsWith("DIRECTIVE_")) {
+    return null;
+  }
+
+  for (const [pattern, makeCoordinate] of coordinatePatterns) {
+    const match = change.description.match(pattern);
+
+    if (match) {
+      return makeCoordinate(...match.slice(1));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the breaking and dangerous changes from the previous schema to the
+ * new one, along with what each of them changes.
+ */
+export function findSchemaChanges(
+  previousSchema: GraphQLSchema,
+  schema: GraphQLSchema
+): SchemaChange[] {
+  const toChange = (breaking: boolean) => (
+    change: BreakingChange | DangerousChange
+  ): SchemaChange => ({
+    breaking,
+    description: change.description,
+    coordinate: getChangeCoordinate(change)
+  });
+
+  return [
+    ...findBreakingChanges(previousSchema, schema).map(toChange(true)),
+    ...findDangerousChanges(previousSchema, schema).map(toChange(false))
+  ];
+}
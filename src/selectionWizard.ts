@@ -0,0 +1,367 @@
+import { window, QuickPickItem } from "vscode";
+import {
+  GraphQLArgument,
+  GraphQLField,
+  GraphQLInputField,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  getNamedType,
+  isAbstractType,
+  isInputObjectType,
+  isInterfaceType,
+  isLeafType,
+  isNonNullType,
+  isObjectType
+} from "graphql";
+
+import { capitalize } from "./extensionUtils";
+import { isRequired, makePlaceholder, printDefaultValue } from "./inputValues";
+
+/**
+ * Lets the user build a selection set by picking fields of a type, drilling
+ * into the object, interface and union fields that were picked, and pick how
+ * the arguments of a field are passed. Every variable the picks introduce is
+ * collected in the context, named so they never collide.
+ */
+
+export interface WizardVariable {
+  name: string;
+  type: string;
+  /**
+   * The default value of the variable, printed as GraphQL.
+   */
+  defaultValue?: string;
+}
+
+export interface WizardContext {
+  schema: GraphQLSchema;
+  variables: WizardVariable[];
+}
+
+/**
+ * Which arguments are passed by default. The user can pick others.
+ */
+export type ArgumentsType = "ALL" | "ONLY_REQUIRED";
+
+interface SelectionItem extends QuickPickItem {
+  field?: GraphQLField<any, any>;
+  possibleType?: GraphQLObjectType;
+}
+
+interface ArgumentItem extends QuickPickItem {
+  arg: GraphQLArgument;
+}
+
+type ArgumentMode = "VARIABLE" | "INLINE" | "FIELD_VARIABLES";
+
+interface ArgumentModeItem extends QuickPickItem {
+  mode: ArgumentMode;
+}
+
+export function makeWizardContext(schema: GraphQLSchema): WizardContext {
+  return { schema, variables: [] };
+}
+
+const indent = (indentation: number) => " ".repeat(indentation);
+
+const getFields = (type: GraphQLNamedType) =>
+  isObjectType(type) || isInterfaceType(type)
+    ? Object.values(type.getFields())
+    : [];
+
+const hasRequiredArgs = (field: GraphQLField<any, any>) =>
+  field.args.some(isRequired);
+
+/**
+ * Adds a variable to the context. Variables are named after what they're
+ * passed to, prefixed with the name of the field if that's already taken.
+ */
+function addVariable(
+  context: WizardContext,
+  prefix: string,
+  arg: GraphQLArgument | GraphQLInputField
+): string {
+  const candidates = [arg.name, `${prefix}${capitalize(arg.name)}`];
+  const isFree = (name: string) =>
+    !context.variables.some(variable => variable.name === name);
+
+  let name = candidates.find(isFree);
+
+  for (let i = 2; !name; i++) {
+    name = isFree(`${candidates[1]}${i}`) ? `${candidates[1]}${i}` : undefined;
+  }
+
+  context.variables.push({
+    name,
+    type: arg.type.toString(),
+    defaultValue: printDefaultValue(arg)
+  });
+
+  return `$${name}`;
+}
+
+function makeArgumentValue(
+  context: WizardContext,
+  field: GraphQLField<any, any>,
+  arg: GraphQLArgument,
+  mode: ArgumentMode
+): string {
+  const namedType = getNamedType(arg.type);
+
+  switch (mode) {
+    case "VARIABLE":
+      return addVariable(context, field.name, arg);
+    case "INLINE":
+      return printDefaultValue(arg) || makePlaceholder(arg.type);
+    case "FIELD_VARIABLES": {
+      if (!isInputObjectType(namedType)) {
+        return addVariable(context, field.name, arg);
+      }
+
+      const inputFields = Object.values(namedType.getFields());
+      const requiredFields = inputFields.filter(isRequired);
+
+      return `{${(requiredFields.length > 0 ? requiredFields : inputFields)
+        .map(
+          inputField =>
+            `${inputField.name}: ${addVariable(context, arg.name, inputField)}`
+        )
+        .join(", ")}}`;
+    }
+  }
+}
+
+const printArguments = (args: string[]) =>
+  args.length > 0 ? `(${args.join(", ")})` : "";
+
+/**
+ * Nested fields pass their required arguments as variables, without asking.
+ */
+function makeRequiredArguments(
+  context: WizardContext,
+  field: GraphQLField<any, any>
+): string {
+  return printArguments(
+    field.args
+      .filter(isRequired)
+      .map(
+        arg =>
+          `${arg.name}: ${makeArgumentValue(context, field, arg, "VARIABLE")}`
+      )
+  );
+}
+
+async function pickArgumentMode(
+  field: GraphQLField<any, any>,
+  arg: GraphQLArgument
+): Promise<ArgumentMode> {
+  const defaultValue = printDefaultValue(arg);
+  const namedType = getNamedType(arg.type);
+
+  const items: ArgumentModeItem[] = [
+    {
+      label: `$${arg.name}`,
+      description: "Pass as a variable",
+      mode: "VARIABLE"
+    },
+    {
+      label: defaultValue || makePlaceholder(arg.type),
+      description: defaultValue
+        ? "Pass the default value inline"
+        : "Pass a value inline",
+      mode: "INLINE"
+    },
+    ...(isInputObjectType(namedType)
+      ? [
+          {
+            label: `{ ...$fields }`,
+            description: `Pass each field of ${namedType.name} as a variable`,
+            mode: "FIELD_VARIABLES" as ArgumentMode
+          }
+        ]
+      : [])
+  ];
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: `How should '${arg.name}' of '${field.name}' be passed?`
+  });
+
+  return picked ? picked.mode : "VARIABLE";
+}
+
+/**
+ * Asks the user which arguments to pass to the field, and how to pass each of
+ * them. Required arguments are always passed, inline if they're not picked.
+ * Returns the printed arguments, including their parentheses.
+ */
+export async function pickArguments(
+  context: WizardContext,
+  field: GraphQLField<any, any>,
+  type: ArgumentsType
+): Promise<string> {
+  if (field.args.length === 0) {
+    return "";
+  }
+
+  const isPreselected = (arg: GraphQLArgument) =>
+    type === "ALL" || isNonNullType(arg.type);
+
+  const picked = await window.showQuickPick(
+    field.args.map(
+      (arg): ArgumentItem => ({
+        label: arg.name,
+        description: `${arg.type.toString()}${
+          arg.defaultValue !== undefined ? ` = ${printDefaultValue(arg)}` : ""
+        }`,
+        detail: arg.description || undefined,
+        picked: isPreselected(arg),
+        arg
+      })
+    ),
+    {
+      canPickMany: true,
+      placeHolder: `Select the arguments of '${field.name}' to pass`
+    }
+  );
+
+  const pickedArgs = picked
+    ? picked.map(item => item.arg)
+    : field.args.filter(isPreselected);
+
+  const args: string[] = [];
+
+  for (const arg of field.args) {
+    if (pickedArgs.includes(arg)) {
+      const mode = await pickArgumentMode(field, arg);
+      args.push(`${arg.name}: ${makeArgumentValue(context, field, arg, mode)}`);
+    } else if (isRequired(arg)) {
+      args.push(
+        `${arg.name}: ${makeArgumentValue(context, field, arg, "INLINE")}`
+      );
+    }
+  }
+
+  return printArguments(args);
+}
+
+/**
+ * Leaf fields are preselected, unless they're deprecated or need arguments.
+ * Object fields have to be drilled into, so they're never preselected.
+ */
+const isFieldPreselected = (field: GraphQLField<any, any>) =>
+  isLeafType(getNamedType(field.type)) &&
+  !field.isDeprecated &&
+  !hasRequiredArgs(field);
+
+/**
+ * The selection to use when nothing is picked, so the selection set is valid
+ * anyway.
+ */
+const getFallbackSelection = (type: GraphQLNamedType) =>
+  getFields(type).some(field => field.name === "id") ? "id" : "__typename";
+
+function getSelectionItems(
+  context: WizardContext,
+  type: GraphQLNamedType
+): SelectionItem[] {
+  const fieldItems: SelectionItem[] = getFields(type).map(field => ({
+    label: field.name,
+    description: field.type.toString(),
+    detail: field.description || undefined,
+    picked: isFieldPreselected(field),
+    field
+  }));
+
+  const possibleTypeItems: SelectionItem[] = isAbstractType(type)
+    ? context.schema.getPossibleTypes(type).map(possibleType => ({
+        label: `... on ${possibleType.name}`,
+        description: "Inline fragment",
+        possibleType
+      }))
+    : [];
+
+  return [...fieldItems, ...possibleTypeItems];
+}
+
+async function pickSelections(
+  context: WizardContext,
+  type: GraphQLNamedType,
+  path: string,
+  indentation: number
+): Promise<string[] | null> {
+  const picked = await window.showQuickPick(getSelectionItems(context, type), {
+    canPickMany: true,
+    placeHolder: `Select fields of ${path}`
+  });
+
+  if (!picked) {
+    return null;
+  }
+
+  const selections: string[] = isAbstractType(type) ? ["__typename"] : [];
+
+  for (const item of picked) {
+    if (item.field) {
+      const fieldType = getNamedType(item.field.type);
+      const selection = `${item.field.name}${makeRequiredArguments(
+        context,
+        item.field
+      )}`;
+
+      selections.push(
+        isLeafType(fieldType)
+          ? selection
+          : `${selection} ${await pickSelectionSetOfType(
+              context,
+              fieldType,
+              `${path}.${item.field.name}`,
+              indentation + 2
+            )}`
+      );
+    } else if (item.possibleType) {
+      selections.push(
+        `... on ${item.possibleType.name} ${await pickSelectionSetOfType(
+          context,
+          item.possibleType,
+          `${path} on ${item.possibleType.name}`,
+          indentation + 2
+        )}`
+      );
+    }
+  }
+
+  return selections;
+}
+
+async function pickSelectionSetOfType(
+  context: WizardContext,
+  type: GraphQLNamedType,
+  path: string,
+  indentation: number
+): Promise<string> {
+  const picked = await pickSelections(context, type, path, indentation);
+  const selections =
+    picked && picked.length > 0 ? picked : [getFallbackSelection(type)];
+
+  return `{\n${selections
+    .map(selection => `${indent(indentation + 2)}${selection}`)
+    .join("\n")}\n${indent(indentation)}}`;
+}
+
+/**
+ * Asks the user for the selection set of a type, including its braces and
+ * indented to the indentation it's picked for. Returns null for leaf types,
+ * which have no selection set. If the user dismisses the first pick, a
+ * minimal valid selection set is returned.
+ */
+export async function pickSelectionSet(
+  context: WizardContext,
+  type: GraphQLNamedType,
+  path: string,
+  indentation: number
+): Promise<string | null> {
+  return isLeafType(type)
+    ? null
+    : pickSelectionSetOfType(context, type, path, indentation);
+}
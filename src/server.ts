@@ -1,8 +1,279 @@
-// @ts-ignore
-import { startServer } from "@gabnor/graphql-language-service-server";
+import {
+  MessageProcessor,
+  startServer
+  // @ts-ignore
+} from "@gabnor/graphql-language-service-server";
+import * as path from "path";
+import {
+  DocumentNode,
+  GraphQLError,
+  GraphQLSchema,
+  ValidationRule
+} from "graphql";
+import {
+  addFrameworkDirectives,
+  findTagFramework,
+  getSchemaFramework
+} from "./frameworks";
+import {
+  filterRelayFalsePositives,
+  relayValidationRules
+} from "./relayValidation";
+
+/**
+ * The language server has no hooks for this, so the framework specific
+ * directives and validation rules are patched into the modules it uses to
+ * read the schema and validate documents.
+ */
+
+/**
+ * The modules are resolved from the directory of the language server, so
+ * that the copies it uses are the ones patched.
+ */
+const serverDir = path.dirname(
+  require.resolve("@gabnor/graphql-language-service-server/package.json")
+);
+
+const requireServerDependency = (name: string): unknown =>
+  require(require.resolve(name, { paths: [serverDir] }));
+
+/**
+ * The parts of the language server's internals that are patched. None of
+ * them are typed by the language server, so they're described here as far
+ * as they're used, and checked at runtime before patching.
+ */
+interface DocumentNotificationParams {
+  textDocument?: { uri: string; text?: string };
+  contentChanges?: Array<{ text: string }>;
+}
+
+type NotificationHandler = (
+  this: unknown,
+  params: DocumentNotificationParams
+) => unknown;
+
+interface SchemaCache {
+  getSchema(...args: unknown[]): Promise<GraphQLSchema | null | undefined>;
+}
+
+interface LanguageService {
+  _graphQLCache?: SchemaCache;
+}
+
+type LanguageServiceMethod = (
+  this: LanguageService,
+  query: string,
+  ...args: unknown[]
+) => unknown;
+
+interface LanguageServiceModule {
+  GraphQLLanguageService?: { prototype?: { [method: string]: unknown } };
+}
+
+type ValidateWithCustomRules = (
+  schema: GraphQLSchema,
+  ast: DocumentNode,
+  customRules?: Array<ValidationRule>,
+  isRelayCompatMode?: boolean
+) => ReadonlyArray<GraphQLError>;
+
+interface LanguageServiceUtils {
+  validateWithCustomRules?: ValidateWithCustomRules;
+}
+
+const reportedPatchFailures: Set<string> = new Set();
+
+/**
+ * The patches rely on internals of the language server, so when those change
+ * the language server keeps running as is, without the framework features.
+ */
+function reportPatchFailure(patch: string, reason: string) {
+  if (!reportedPatchFailures.has(patch)) {
+    reportedPatchFailures.add(patch);
+    console.error(`Could not ${patch}: ${reason}`);
+  }
+}
+
+/**
+ * The latest text of each open document, which the language service itself
+ * only sees one GraphQL tag at a time of.
+ */
+const documentTexts: Map<string, string> = new Map();
+
+function trackDocumentTexts() {
+  const handlers: {
+    handleDidOpenOrSaveNotification: NotificationHandler;
+    handleDidChangeNotification: NotificationHandler;
+    handleDidCloseNotification: NotificationHandler;
+  } = MessageProcessor.prototype;
+  const {
+    handleDidOpenOrSaveNotification,
+    handleDidChangeNotification,
+    handleDidCloseNotification
+  } = handlers;
+
+  handlers.handleDidOpenOrSaveNotification = function(params) {
+    if (params.textDocument && params.textDocument.text != null) {
+      documentTexts.set(params.textDocument.uri, params.textDocument.text);
+    }
+
+    return handleDidOpenOrSaveNotification.call(this, params);
+  };
+
+  handlers.handleDidChangeNotification = function(params) {
+    const changes = params.contentChanges;
+
+    if (params.textDocument && changes && changes.length > 0) {
+      documentTexts.set(
+        params.textDocument.uri,
+        changes[changes.length - 1].text
+      );
+    }
+
+    return handleDidChangeNotification.call(this, params);
+  };
+
+  handlers.handleDidCloseNotification = function(params) {
+    if (params.textDocument) {
+      documentTexts.delete(params.textDocument.uri);
+    }
+
+    return handleDidCloseNotification.call(this, params);
+  };
+}
+
+/**
+ * Runs the language service with the schema of the framework the queried tag
+ * belongs to, so that validation, completion and hover all know about that
+ * framework's directives.
+ */
+function useFrameworkSchemas() {
+  const patch = "add framework directives to the schema";
+  const { GraphQLLanguageService } = requireServerDependency(
+    "graphql-language-service-interface"
+  ) as LanguageServiceModule;
+
+  if (!GraphQLLanguageService || !GraphQLLanguageService.prototype) {
+    reportPatchFailure(patch, "GraphQLLanguageService was not found");
+    return;
+  }
+
+  const servicePrototype = GraphQLLanguageService.prototype;
+
+  [
+    "getDiagnostics",
+    "getAutocompleteSuggestions",
+    "getHoverInformation"
+  ].forEach(method => {
+    const found = servicePrototype[method];
+
+    if (typeof found !== "function") {
+      reportPatchFailure(
+        patch,
+        `GraphQLLanguageService.${method} was not found`
+      );
+      return;
+    }
+
+    const original = found as LanguageServiceMethod;
+
+    const patched: LanguageServiceMethod = function(query, ...args) {
+      // The uri is the only string among the rest of the arguments
+      const uris = args.filter((arg): arg is string => typeof arg === "string");
+
+      if (uris.length !== 1) {
+        reportPatchFailure(
+          patch,
+          `the uri of the document wasn't among the arguments of ${method}`
+        );
+        return original.call(this, query, ...args);
+      }
+
+      const [uri] = uris;
+      const framework = findTagFramework(
+        uri,
+        documentTexts.get(uri) || "",
+        query
+      );
+
+      if (!framework) {
+        return original.call(this, query, ...args);
+      }
+
+      const cache = this._graphQLCache;
+
+      if (!cache || typeof cache.getSchema !== "function") {
+        reportPatchFailure(
+          patch,
+          "the schema cache of the service was not found"
+        );
+        return original.call(this, query, ...args);
+      }
+
+      const frameworkCache: SchemaCache = Object.create(cache);
+
+      frameworkCache.getSchema = async (...schemaArgs) => {
+        const schema = await cache.getSchema(...schemaArgs);
+        return schema ? addFrameworkDirectives(schema, framework) : schema;
+      };
+
+      const service: LanguageService = Object.create(this);
+      service._graphQLCache = frameworkCache;
+
+      return original.call(service, query, ...args);
+    };
+
+    servicePrototype[method] = patched;
+  });
+}
+
+function addRelayValidation() {
+  const utils = requireServerDependency(
+    "graphql-language-service-utils"
+  ) as LanguageServiceUtils;
+  const validateWithCustomRules = utils.validateWithCustomRules;
+
+  if (typeof validateWithCustomRules !== "function") {
+    reportPatchFailure(
+      "add the Relay validation rules",
+      "validateWithCustomRules was not found"
+    );
+    return;
+  }
+
+  utils.validateWithCustomRules = (
+    schema,
+    ast,
+    customRules,
+    isRelayCompatMode
+  ) => {
+    if (getSchemaFramework(schema) !== "ReasonRelay") {
+      return validateWithCustomRules(
+        schema,
+        ast,
+        customRules,
+        isRelayCompatMode
+      );
+    }
+
+    return filterRelayFalsePositives(
+      ast,
+      validateWithCustomRules(
+        schema,
+        ast,
+        [...(customRules || []), ...relayValidationRules],
+        isRelayCompatMode
+      )
+    );
+  };
+}
 
 (async () => {
   try {
+    trackDocumentTexts();
+    useFrameworkSchemas();
+    addRelayValidation();
+
     await startServer({
       method: "node"
     });
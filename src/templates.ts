@@ -0,0 +1,215 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  Framework,
+  InsertGraphQLComponentType,
+  Syntax
+} from "./extensionTypes";
+
+/**
+ * The code the add-* commands insert is rendered from templates. The
+ * templates can be overridden per workspace in a templates file, keyed on
+ * framework and kind:
+ *
+ * {
+ *   "ReasonRelay": {
+ *     "Query": [{ "name": "Page query", "template": ["...", "..."] }]
+ *   }
+ * }
+ *
+ * Placeholders like `${moduleName}` are replaced by their value. Multi line
+ * values are indented to the indentation of the line they're placed on.
+ */
+
+export const templatesFileName = path.join(
+  ".vscode",
+  "reasonml-graphql-templates.json"
+);
+
+export interface Template {
+  name: string;
+  /**
+   * The template itself, either as a single string or as a list of lines.
+   */
+  template: string | string[];
+  /**
+   * Restricts the template to Reason or ReScript files.
+   */
+  syntax?: Syntax;
+}
+
+type TemplatesFile = {
+  [framework in Framework]?: {
+    [type in InsertGraphQLComponentType]?: Template[];
+  };
+};
+
+export interface TemplateValues {
+  /**
+   * The name of the generated module, like `Query` or `UserFragment`.
+   */
+  moduleName: string;
+  /**
+   * The name of the module of the file, that is the file name.
+   */
+  fileModule: string;
+  extensionNode: string;
+  /**
+   * `query`, `mutation`, `subscription` or `fragment`.
+   */
+  operationType: string;
+  operationName: string;
+  /**
+   * The type of the fragment, or the return type of the operation's root
+   * field.
+   */
+  type: string;
+  /**
+   * The root field of operations. Empty for fragments.
+   */
+  field: string;
+  /**
+   * The variable definitions of operations including their parentheses, or
+   * the @argumentDefinitions of fragments.
+   */
+  variablesDefinition: string;
+  /**
+   * The arguments passed to the root field of operations.
+   */
+  arguments: string;
+  selection: string;
+  /**
+   * The full operation or fragment, made from the values above.
+   */
+  operation: string;
+  /**
+   * The React component using the module, for the `with component` commands.
+   */
+  component: string;
+}
+
+export interface RenderedTemplate {
+  text: string;
+  /**
+   * Where to put the cursor, as an offset into the text. Set by the
+   * `${cursor}` placeholder.
+   */
+  cursorOffset: number | null;
+}
+
+/**
+ * The default templates put the cursor at the start of the operation, so
+ * that GraphiQL Explorer opens it.
+ */
+export const defaultTemplates: { [syntax in Syntax]: Template } = {
+  Reason: {
+    name: "Default",
+    template: [
+      "module ${moduleName} = [%${extensionNode}",
+      "  {|",
+      "  ${cursor}${operation}",
+      "|}",
+      "];"
+    ]
+  },
+  ReScript: {
+    name: "Default",
+    template: [
+      "module ${moduleName} = %${extensionNode}(`",
+      "  ${cursor}${operation}",
+      "`)"
+    ]
+  }
+};
+
+const placeholderRegexp = /\$\{(\w+)\}/g;
+
+function readTemplatesFile(rootPath: string): TemplatesFile | null {
+  const templatesPath = path.join(rootPath, templatesFileName);
+
+  if (!fs.existsSync(templatesPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(templatesPath, "utf8"));
+  } catch (e) {
+    throw new Error(`Parsing ${templatesPath} failed.\n${e.message}`);
+  }
+}
+
+/**
+ * Returns the templates the user has defined for the framework and kind, in
+ * the syntax of the file. Empty if there are none.
+ */
+export function loadTemplates(
+  rootPath: string,
+  framework: Framework,
+  type: InsertGraphQLComponentType,
+  syntax: Syntax
+): Template[] {
+  const templatesFile = readTemplatesFile(rootPath);
+  const frameworkTemplates = templatesFile
+    ? templatesFile[framework]
+    : undefined;
+  const templates = (frameworkTemplates && frameworkTemplates[type]) || [];
+
+  return templates.filter(
+    template => !template.syntax || template.syntax === syntax
+  );
+}
+
+export function renderTemplate(
+  template: Template,
+  values: TemplateValues
+): RenderedTemplate {
+  const source = Array.isArray(template.template)
+    ? template.template.join("\n")
+    : template.template;
+
+  let text = "";
+  let cursorOffset: number | null = null;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  placeholderRegexp.lastIndex = 0;
+
+  while ((match = placeholderRegexp.exec(source))) {
+    text += source.slice(lastIndex, match.index);
+    lastIndex = placeholderRegexp.lastIndex;
+
+    const name = match[1];
+
+    if (name === "cursor") {
+      cursorOffset = text.length;
+      continue;
+    }
+
+    if (!values.hasOwnProperty(name)) {
+      // Unknown placeholders are left as they are
+      text += match[0];
+      continue;
+    }
+
+    const value = values[name as keyof TemplateValues];
+    const line = text.slice(text.lastIndexOf("\n") + 1);
+    const lineIndentation = (line.match(/^\s*/) || [""])[0];
+
+    text += value
+      .split("\n")
+      .map((valueLine, i) =>
+        i === 0 || valueLine === "" ? valueLine : lineIndentation + valueLine
+      )
+      .join("\n");
+  }
+
+  text += source.slice(lastIndex);
+
+  // Templates without a place for the component get it appended
+  if (values.component && !source.includes("${component}")) {
+    text += `\n\n${values.component}`;
+  }
+
+  return { text, cursorOffset };
+}
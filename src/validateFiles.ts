@@ -0,0 +1,264 @@
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  GraphQLError,
+  GraphQLSchema,
+  Kind,
+  NoUnusedFragmentsRule,
+  Source,
+  ValidationRule,
+  parse,
+  specifiedRules,
+  validate,
+  visit
+} from "graphql";
+
+import { Framework, GraphQLSource } from "./extensionTypes";
+import { extractGraphQLSources } from "./findGraphQLSources";
+import {
+  findModuleName,
+  getFileLocation,
+  getTextOffset
+} from "./extensionUtils";
+import {
+  addFrameworkDirectives,
+  getFrameworkForExtensionNode,
+  isSpreadOf
+} from "./frameworks";
+import {
+  filterRelayFalsePositives,
+  relayValidationRules
+} from "./relayValidation";
+
+/**
+ * Validates the GraphQL embedded in files against the schema, the way the
+ * language server does in the editor, but for many files at once and without
+ * the editor. Fragments are shared between all validated files, so spreading
+ * a fragment defined in another file is fine.
+ */
+
+export interface FileToValidate {
+  filePath: string;
+  languageId: string;
+  text: string;
+}
+
+export interface ValidationError {
+  filePath: string;
+  /**
+   * The 1-based location of the error in the file.
+   */
+  line: number;
+  column: number;
+  message: string;
+}
+
+interface ParsedSource {
+  filePath: string;
+  source: GraphQLSource;
+  document: DocumentNode;
+  framework: Framework | null;
+}
+
+interface SharedFragment {
+  name: string;
+  /**
+   * The module the tag of the fragment is assigned to, if any.
+   */
+  moduleName: string | null;
+  definition: FragmentDefinitionNode;
+}
+
+/**
+ * Fragments are often defined in one file and used in another, so they're
+ * not required to be used in the document defining them.
+ */
+const rules: ReadonlyArray<ValidationRule> = specifiedRules.filter(
+  rule => rule !== NoUnusedFragmentsRule
+);
+
+function makeError(
+  filePath: string,
+  source: GraphQLSource,
+  error: GraphQLError
+): ValidationError {
+  const loc = error.locations ? error.locations[0] : { line: 1, column: 1 };
+
+  return {
+    filePath,
+    ...getFileLocation(source, loc),
+    message: error.message
+  };
+}
+
+const hasExecutableDefinitions = (document: DocumentNode) =>
+  document.definitions.some(
+    definition =>
+      definition.kind === Kind.OPERATION_DEFINITION ||
+      definition.kind === Kind.FRAGMENT_DEFINITION
+  );
+
+/**
+ * Finds the fragments the document spreads without defining them, along
+ * with the fragments those spread in turn. Fragments spread by their module
+ * name are renamed to match the spread.
+ */
+function findExternalFragments(
+  document: DocumentNode,
+  fragments: SharedFragment[]
+): FragmentDefinitionNode[] {
+  const defined = new Set(
+    document.definitions.reduce(
+      (acc: string[], definition) =>
+        definition.kind === Kind.FRAGMENT_DEFINITION
+          ? [...acc, definition.name.value]
+          : acc,
+      []
+    )
+  );
+
+  const external: FragmentDefinitionNode[] = [];
+  const queue: Array<DocumentNode | FragmentDefinitionNode> = [document];
+
+  while (queue.length > 0) {
+    visit(queue.shift() as DocumentNode | FragmentDefinitionNode, {
+      FragmentSpread(node) {
+        const spreadName = node.name.value;
+        const fragment = defined.has(spreadName)
+          ? null
+          : fragments.find(fragment => isSpreadOf(fragment, spreadName));
+
+        if (fragment) {
+          const definition = {
+            ...fragment.definition,
+            name: { ...fragment.definition.name, value: spreadName }
+          };
+
+          defined.add(spreadName);
+          external.push(definition);
+          queue.push(definition);
+        }
+      }
+    });
+  }
+
+  return external;
+}
+
+function validateSource(
+  schema: GraphQLSchema,
+  parsed: ParsedSource,
+  fragments: SharedFragment[]
+): ValidationError[] {
+  const { document, framework } = parsed;
+  const frameworkSchema = framework
+    ? addFrameworkDirectives(schema, framework)
+    : schema;
+
+  const errors = validate(
+    frameworkSchema,
+    {
+      ...document,
+      definitions: [
+        ...document.definitions,
+        ...findExternalFragments(document, fragments)
+      ]
+    },
+    framework === "ReasonRelay" ? [...rules, ...relayValidationRules] : rules
+  );
+
+  const ownSource = document.loc ? document.loc.source : null;
+
+  // Errors in fragments from other sources are reported for those sources
+  const ownErrors = errors.filter(error =>
+    (error.nodes || []).every(
+      node => !node.loc || node.loc.source === ownSource
+    )
+  );
+
+  return (framework === "ReasonRelay"
+    ? filterRelayFalsePositives(document, ownErrors)
+    : ownErrors
+  ).map(error => makeError(parsed.filePath, parsed.source, error));
+}
+
+/**
+ * Validates every GraphQL source in the files. The schema of each file is
+ * looked up through `getSchema`, which lets files of different projects be
+ * validated against different schemas. Files without a schema are reported
+ * as errors rather than skipped.
+ */
+export async function validateFiles(
+  files: FileToValidate[],
+  getSchema: (filePath: string) => Promise<GraphQLSchema | null>
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const parsedSources: ParsedSource[] = [];
+  const fragments: SharedFragment[] = [];
+
+  files.forEach(({ filePath, languageId, text }) =>
+    (extractGraphQLSources(languageId, text) || []).forEach(source => {
+      if (source.type === "TAG" && /^[\s]*$/.test(source.content)) {
+        return;
+      }
+
+      let document: DocumentNode;
+
+      try {
+        document = parse(new Source(source.content, filePath));
+      } catch (e) {
+        errors.push(makeError(filePath, source, e));
+        return;
+      }
+
+      // Schema files are only validated as part of the schema
+      if (!hasExecutableDefinitions(document)) {
+        return;
+      }
+
+      const moduleName =
+        source.type === "TAG"
+          ? findModuleName(text, getTextOffset(text, source.start))
+          : null;
+
+      document.definitions.forEach(definition => {
+        if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+          fragments.push({
+            name: definition.name.value,
+            moduleName,
+            definition
+          });
+        }
+      });
+
+      parsedSources.push({
+        filePath,
+        source,
+        document,
+        framework:
+          source.type === "TAG" && source.extensionNode
+            ? getFrameworkForExtensionNode(source.extensionNode)
+            : null
+      });
+    })
+  );
+
+  const filesWithoutSchema: Set<string> = new Set();
+
+  for (const parsed of parsedSources) {
+    const schema = await getSchema(parsed.filePath);
+
+    if (schema) {
+      errors.push(...validateSource(schema, parsed, fragments));
+    } else if (!filesWithoutSchema.has(parsed.filePath)) {
+      filesWithoutSchema.add(parsed.filePath);
+      errors.push({
+        filePath: parsed.filePath,
+        ...getFileLocation(parsed.source, { line: 1, column: 1 }),
+        message: "No GraphQL schema was found for the project of this file."
+      });
+    }
+  }
+
+  return errors;
+}
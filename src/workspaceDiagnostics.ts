@@ -0,0 +1,222 @@
+import {
+  languages,
+  window,
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  CodeActionProvider,
+  Diagnostic,
+  DiagnosticCollection,
+  DiagnosticRelatedInformation,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  ExtensionContext,
+  Location,
+  OutputChannel,
+  TextDocument,
+  Uri,
+  WorkspaceEdit
+} from "vscode";
+
+import { isSpreadOf } from "./frameworks";
+import { addSpreadRenameEdits } from "./renameFiles";
+import {
+  getDefinitions,
+  getSpreads,
+  getUniqueDefinitionName,
+  onDidChangeIndex,
+  IndexedDefinition
+} from "./workspaceIndex";
+
+/**
+ * Checks the operations and fragments of the whole workspace together, which
+ * the language server can't do since it validates one document at a time:
+ * Relay requires names to be unique across the project, fragments that
+ * nothing spreads are dead code, and spreading a fragment that doesn't exist
+ * anywhere fails to compile.
+ */
+
+const diagnosticSource = "GraphQL workspace";
+const duplicateNameCode = "duplicate-name";
+
+let updateTimeout: NodeJS.Timeout | null = null;
+
+function addDiagnostic(
+  diagnostics: Map<string, { uri: Uri; diagnostics: Diagnostic[] }>,
+  uri: Uri,
+  diagnostic: Diagnostic
+) {
+  const fileDiagnostics = diagnostics.get(uri.toString()) || {
+    uri,
+    diagnostics: []
+  };
+
+  diagnostic.source = diagnosticSource;
+  fileDiagnostics.diagnostics.push(diagnostic);
+  diagnostics.set(uri.toString(), fileDiagnostics);
+}
+
+async function updateDiagnostics(collection: DiagnosticCollection) {
+  const definitions = await getDefinitions();
+  const spreads = await getSpreads();
+  const fragments = definitions.filter(
+    definition => definition.kind === "fragment"
+  );
+  const diagnostics: Map<
+    string,
+    { uri: Uri; diagnostics: Diagnostic[] }
+  > = new Map();
+  const definitionsByName: Map<string, IndexedDefinition[]> = new Map();
+
+  definitions.forEach(definition =>
+    definitionsByName.set(definition.name, [
+      ...(definitionsByName.get(definition.name) || []),
+      definition
+    ])
+  );
+
+  definitions.forEach(definition => {
+    const duplicates = (definitionsByName.get(definition.name) || []).filter(
+      other => other !== definition
+    );
+
+    if (duplicates.length > 0) {
+      const diagnostic = new Diagnostic(
+        definition.range,
+        `${definition.name} is defined ${duplicates.length +
+          1} times in the workspace, but the names of operations and fragments must be unique.`,
+        DiagnosticSeverity.Error
+      );
+
+      diagnostic.code = duplicateNameCode;
+      diagnostic.relatedInformation = duplicates.map(
+        duplicate =>
+          new DiagnosticRelatedInformation(
+            new Location(duplicate.uri, duplicate.range),
+            `${duplicate.name} is also defined here`
+          )
+      );
+      addDiagnostic(diagnostics, definition.uri, diagnostic);
+    }
+  });
+
+  fragments.forEach(fragment => {
+    if (!spreads.some(spread => isSpreadOf(fragment, spread.name))) {
+      const diagnostic = new Diagnostic(
+        fragment.range,
+        `Fragment ${fragment.name} is never spread in the workspace.`,
+        DiagnosticSeverity.Warning
+      );
+
+      diagnostic.tags = [DiagnosticTag.Unnecessary];
+      addDiagnostic(diagnostics, fragment.uri, diagnostic);
+    }
+  });
+
+  spreads.forEach(spread => {
+    if (!fragments.some(fragment => isSpreadOf(fragment, spread.name))) {
+      addDiagnostic(
+        diagnostics,
+        spread.uri,
+        new Diagnostic(
+          spread.range,
+          `Fragment ${spread.name} isn't defined anywhere in the workspace.`,
+          DiagnosticSeverity.Error
+        )
+      );
+    }
+  });
+
+  collection.clear();
+  diagnostics.forEach(fileDiagnostics =>
+    collection.set(fileDiagnostics.uri, fileDiagnostics.diagnostics)
+  );
+}
+
+/**
+ * Indexing happens on every keystroke, so updates wait for a pause.
+ */
+function scheduleUpdate(
+  collection: DiagnosticCollection,
+  outputChannel: OutputChannel
+) {
+  if (updateTimeout) {
+    clearTimeout(updateTimeout);
+  }
+
+  updateTimeout = setTimeout(() => {
+    updateTimeout = null;
+    updateDiagnostics(collection).catch(e =>
+      outputChannel.appendLine(
+        `Could not check the GraphQL of the workspace: ${
+          e instanceof Error ? e.message : String(e)
+        }`
+      )
+    );
+  }, 300);
+}
+
+/**
+ * Renaming a duplicate renames the spreads in the same document along with
+ * it. Spreads in other documents can't be told apart from spreads of the
+ * other definitions of the name, so they're left as they are.
+ */
+const codeActionProvider: CodeActionProvider = {
+  async provideCodeActions(
+    document: TextDocument,
+    _range,
+    context: CodeActionContext
+  ) {
+    const actions: CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (
+        diagnostic.source !== diagnosticSource ||
+        diagnostic.code !== duplicateNameCode
+      ) {
+        continue;
+      }
+
+      const name = document.getText(diagnostic.range);
+      const uniqueName = await getUniqueDefinitionName(name);
+      const action = new CodeAction(
+        `Rename to ${uniqueName}`,
+        CodeActionKind.QuickFix
+      );
+
+      action.diagnostics = [diagnostic];
+      action.edit = new WorkspaceEdit();
+      action.edit.replace(document.uri, diagnostic.range, uniqueName);
+      addSpreadRenameEdits(
+        action.edit,
+        document,
+        new Map([[name, uniqueName]])
+      );
+      actions.push(action);
+    }
+
+    return actions;
+  }
+};
+
+export function initWorkspaceDiagnostics(context: ExtensionContext): void {
+  const collection = languages.createDiagnosticCollection("graphql-workspace");
+  const outputChannel = window.createOutputChannel("GraphQL Workspace");
+
+  scheduleUpdate(collection, outputChannel);
+
+  context.subscriptions.push(
+    collection,
+    outputChannel,
+    onDidChangeIndex(() => scheduleUpdate(collection, outputChannel)),
+    languages.registerCodeActionsProvider(
+      [
+        { scheme: "file", language: "graphql" },
+        { scheme: "file", language: "reason" },
+        { scheme: "file", language: "rescript" }
+      ],
+      codeActionProvider,
+      { providedCodeActionKinds: [CodeActionKind.QuickFix] }
+    )
+  );
+}
@@ -0,0 +1,468 @@
+import * as fs from "fs";
+import {
+  languages,
+  workspace,
+  DefinitionProvider,
+  DocumentSelector,
+  EventEmitter,
+  ExtensionContext,
+  FileSystemWatcher,
+  Location,
+  Position,
+  Range,
+  ReferenceContext,
+  ReferenceProvider,
+  SymbolInformation,
+  SymbolKind,
+  TextDocument,
+  Uri,
+  WorkspaceSymbolProvider
+} from "vscode";
+import {
+  DocumentNode,
+  Kind,
+  Location as GraphQLLocation,
+  visit
+} from "graphql";
+import { getLocator } from "locate-character";
+
+import { GraphQLSource } from "./extensionTypes";
+import { parseGraphQLSources } from "./findGraphQLSources";
+import {
+  findModuleName,
+  getLanguageIdForFile,
+  getTextOffset,
+  graphQLFilesGlob,
+  makeUniqueName
+} from "./extensionUtils";
+import { isSpreadOf } from "./frameworks";
+
+/**
+ * The workspace index keeps track of every fragment and operation defined in
+ * the workspace, and of every fragment spread, so that fragments can be
+ * followed across files. Files are indexed from disk on activation, and
+ * reindexed whenever they change on disk or in an open editor.
+ */
+
+export type IndexedDefinitionKind =
+  | "fragment"
+  | "query"
+  | "mutation"
+  | "subscription";
+
+export interface IndexedDefinition {
+  name: string;
+  kind: IndexedDefinitionKind;
+  uri: Uri;
+  /**
+   * The range of the name of the definition.
+   */
+  range: Range;
+  /**
+   * The GraphQL of the definition itself.
+   */
+  text: string;
+  /**
+   * The module the tag of the definition is assigned to, if any.
+   */
+  moduleName: string | null;
+}
+
+export interface IndexedSpread {
+  name: string;
+  uri: Uri;
+  range: Range;
+}
+
+interface FileIndex {
+  definitions: IndexedDefinition[];
+  spreads: IndexedSpread[];
+}
+
+const documentSelector: DocumentSelector = [
+  { scheme: "file", language: "graphql" },
+  { scheme: "file", language: "reason" },
+  { scheme: "file", language: "rescript" }
+];
+
+const fileIndexes: Map<string, FileIndex> = new Map();
+
+const indexChanged: EventEmitter<void> = new EventEmitter();
+
+/**
+ * Fires whenever a file is indexed again or removed from the index.
+ */
+export const onDidChangeIndex = indexChanged.event;
+
+let initialIndexing: Promise<void> = Promise.resolve();
+
+/**
+ * The initial indexing of the workspace fires the change event once it's
+ * done, rather than once for every file.
+ */
+let indexingWorkspace = false;
+
+function fireIndexChanged(): void {
+  if (!indexingWorkspace) {
+    indexChanged.fire();
+  }
+}
+
+/**
+ * Maps offsets in the GraphQL of a source to positions in its file.
+ */
+function makeSourcePositions(
+  source: GraphQLSource
+): (offset: number) => Position {
+  const locator = getLocator(source.content);
+  const start =
+    source.type === "TAG"
+      ? source.start
+      : {
+          line: 0,
+          character: 0
+        };
+
+  return (offset: number) => {
+    const { line, column } = locator(offset);
+
+    return new Position(
+      start.line + line,
+      line === 0 ? start.character + column : column
+    );
+  };
+}
+
+function indexSource(
+  uri: Uri,
+  source: GraphQLSource,
+  document: DocumentNode,
+  moduleName: string | null,
+  fileIndex: FileIndex
+): void {
+  const toPosition = makeSourcePositions(source);
+  const getText = (loc: GraphQLLocation | undefined) =>
+    loc ? source.content.slice(loc.start, loc.end) : "";
+
+  visit(document, {
+    enter(node) {
+      if (
+        (node.kind !== Kind.OPERATION_DEFINITION &&
+          node.kind !== Kind.FRAGMENT_DEFINITION &&
+          node.kind !== Kind.FRAGMENT_SPREAD) ||
+        !node.name ||
+        !node.name.loc
+      ) {
+        return;
+      }
+
+      const name = node.name.value;
+      const range = new Range(
+        toPosition(node.name.loc.start),
+        toPosition(node.name.loc.end)
+      );
+
+      switch (node.kind) {
+        case Kind.FRAGMENT_SPREAD:
+          fileIndex.spreads.push({ name, uri, range });
+          break;
+        case Kind.FRAGMENT_DEFINITION:
+          fileIndex.definitions.push({
+            name,
+            kind: "fragment",
+            uri,
+            range,
+            text: getText(node.loc),
+            moduleName
+          });
+          break;
+        case Kind.OPERATION_DEFINITION:
+          fileIndex.definitions.push({
+            name,
+            kind: node.operation,
+            uri,
+            range,
+            text: getText(node.loc),
+            moduleName
+          });
+          break;
+      }
+    }
+  });
+}
+
+function indexText(uri: Uri, languageId: string, text: string): void {
+  const fileIndex: FileIndex = { definitions: [], spreads: [] };
+
+  // Malformed GraphQL is indexed once it parses again
+  parseGraphQLSources(languageId, text).forEach(({ source, document }) =>
+    indexSource(
+      uri,
+      source,
+      document,
+      source.type === "TAG"
+        ? findModuleName(text, getTextOffset(text, source.start))
+        : null,
+      fileIndex
+    )
+  );
+  fileIndexes.set(uri.toString(), fileIndex);
+  fireIndexChanged();
+}
+
+/**
+ * Reads a file, preferring the text of an open document since it might have
+ * unsaved changes.
+ */
+export function readWorkspaceFile(uri: Uri): string {
+  const document = workspace.textDocuments.find(
+    doc => doc.uri.toString() === uri.toString()
+  );
+
+  return document ? document.getText() : fs.readFileSync(uri.fsPath, "utf8");
+}
+
+const isOpen = (uri: Uri) =>
+  workspace.textDocuments.some(doc => doc.uri.toString() === uri.toString());
+
+/**
+ * Indexes a file from disk, unless it's open in an editor, in which case the
+ * editor's text wins. Only files on disk are indexed.
+ */
+async function indexFile(uri: Uri): Promise<void> {
+  const languageId = getLanguageIdForFile(uri.fsPath);
+
+  if (uri.scheme !== "file" || !languageId || isOpen(uri)) {
+    return;
+  }
+
+  let text: string;
+
+  try {
+    text = Buffer.from(await workspace.fs.readFile(uri)).toString("utf8");
+  } catch {
+    removeFile(uri);
+    return;
+  }
+
+  // The file may have been opened while it was read
+  if (!isOpen(uri)) {
+    indexText(uri, languageId, text);
+  }
+}
+
+function removeFile(uri: Uri): void {
+  if (fileIndexes.delete(uri.toString())) {
+    fireIndexChanged();
+  }
+}
+
+function indexDocument(document: TextDocument): void {
+  if (
+    document.uri.scheme === "file" &&
+    getLanguageIdForFile(document.fileName)
+  ) {
+    indexText(document.uri, document.languageId, document.getText());
+  }
+}
+
+const getFileIndexes = (): FileIndex[] => Array.from(fileIndexes.values());
+
+export async function getDefinitions(
+  name?: string
+): Promise<IndexedDefinition[]> {
+  await initialIndexing;
+
+  return getFileIndexes().reduce(
+    (acc: IndexedDefinition[], fileIndex) => [
+      ...acc,
+      ...fileIndex.definitions.filter(
+        definition => name === undefined || definition.name === name
+      )
+    ],
+    []
+  );
+}
+
+export async function getSpreads(name?: string): Promise<IndexedSpread[]> {
+  await initialIndexing;
+
+  return getFileIndexes().reduce(
+    (acc: IndexedSpread[], fileIndex) => [
+      ...acc,
+      ...fileIndex.spreads.filter(
+        spread => name === undefined || spread.name === name
+      )
+    ],
+    []
+  );
+}
+
+/**
+ * Finds a name like the given one that no operation or fragment in the
+ * workspace uses yet.
+ */
+export async function getUniqueDefinitionName(name: string): Promise<string> {
+  const definitions = await getDefinitions();
+
+  return makeUniqueName(
+    name,
+    definitions.map(definition => definition.name)
+  );
+}
+
+/**
+ * Finds the fragments a spread refers to, by their name or by the name of
+ * their module.
+ */
+async function getSpreadFragments(
+  spreadName: string
+): Promise<IndexedDefinition[]> {
+  return (await getDefinitions()).filter(
+    definition =>
+      definition.kind === "fragment" && isSpreadOf(definition, spreadName)
+  );
+}
+
+/**
+ * Finds the fragment or operation defined at the position, or the fragment
+ * spread there.
+ */
+function getEntryAtPosition(
+  document: TextDocument,
+  position: Position
+): IndexedDefinition | IndexedSpread | null {
+  indexDocument(document);
+
+  const fileIndex = fileIndexes.get(document.uri.toString());
+
+  if (!fileIndex) {
+    return null;
+  }
+
+  const found = [...fileIndex.definitions, ...fileIndex.spreads].find(entry =>
+    entry.range.contains(position)
+  );
+
+  return found || null;
+}
+
+/**
+ * The definitions of what's at the position: the definition itself along
+ * with any others of the same name, or the fragments spread there.
+ */
+async function getDefinitionsOfEntry(
+  entry: IndexedDefinition | IndexedSpread
+): Promise<IndexedDefinition[]> {
+  return "kind" in entry
+    ? getDefinitions(entry.name)
+    : getSpreadFragments(entry.name);
+}
+
+const definitionProvider: DefinitionProvider = {
+  async provideDefinition(document: TextDocument, position: Position) {
+    const entry = getEntryAtPosition(document, position);
+
+    if (!entry) {
+      return null;
+    }
+
+    return (await getDefinitionsOfEntry(entry)).map(
+      definition => new Location(definition.uri, definition.range)
+    );
+  }
+};
+
+const referenceProvider: ReferenceProvider = {
+  async provideReferences(
+    document: TextDocument,
+    position: Position,
+    context: ReferenceContext
+  ) {
+    const entry = getEntryAtPosition(document, position);
+
+    if (!entry) {
+      return null;
+    }
+
+    const definitions = await getDefinitionsOfEntry(entry);
+    const spreads = (await getSpreads()).filter(
+      spread =>
+        spread.name === entry.name ||
+        definitions.some(
+          definition =>
+            definition.kind === "fragment" &&
+            isSpreadOf(definition, spread.name)
+        )
+    );
+
+    return [...(context.includeDeclaration ? definitions : []), ...spreads].map(
+      entry => new Location(entry.uri, entry.range)
+    );
+  }
+};
+
+const workspaceSymbolProvider: WorkspaceSymbolProvider = {
+  async provideWorkspaceSymbols(query: string) {
+    const lowerCaseQuery = query.toLowerCase();
+
+    return (await getDefinitions())
+      .filter(definition =>
+        definition.name.toLowerCase().includes(lowerCaseQuery)
+      )
+      .map(
+        definition =>
+          new SymbolInformation(
+            definition.name,
+            definition.kind === "fragment"
+              ? SymbolKind.Interface
+              : SymbolKind.Function,
+            definition.kind,
+            new Location(definition.uri, definition.range)
+          )
+      );
+  }
+};
+
+async function indexWorkspace(): Promise<void> {
+  const uris = await workspace.findFiles(
+    graphQLFilesGlob,
+    "**/node_modules/**"
+  );
+
+  indexingWorkspace = true;
+
+  try {
+    await Promise.all(uris.map(indexFile));
+    workspace.textDocuments.forEach(indexDocument);
+  } finally {
+    indexingWorkspace = false;
+  }
+
+  indexChanged.fire();
+}
+
+/**
+ * Builds the index and keeps it up to date through the watcher of GraphQL,
+ * Reason and ReScript files, and the open editors.
+ */
+export function initWorkspaceIndex(
+  context: ExtensionContext,
+  watcher: FileSystemWatcher
+): void {
+  initialIndexing = indexWorkspace();
+
+  context.subscriptions.push(
+    indexChanged,
+    watcher.onDidCreate(indexFile),
+    watcher.onDidChange(indexFile),
+    watcher.onDidDelete(removeFile),
+    workspace.onDidOpenTextDocument(indexDocument),
+    workspace.onDidChangeTextDocument(e => indexDocument(e.document)),
+    // Closing an editor drops unsaved changes, so the file is read again
+    workspace.onDidCloseTextDocument(document => indexFile(document.uri)),
+    languages.registerDefinitionProvider(documentSelector, definitionProvider),
+    languages.registerReferenceProvider(documentSelector, referenceProvider),
+    languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider)
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Checks the GraphQL found in each fixture against the JSON file next to it.
+ * Runs against the build, so build before running it.
+ */
+const assert = require("assert");
+const fs = require("fs");
+const path = require("path");
+
+const { extractGraphQLSources } = require("../build/findGraphQLSources");
+
+const fixturesDir = path.join(__dirname, "fixtures", "findGraphQLSources");
+const languageIds = { ".re": "reason", ".res": "rescript" };
+
+let failures = 0;
+
+fs.readdirSync(fixturesDir)
+  .filter(file => languageIds[path.extname(file)])
+  .forEach(file => {
+    const text = fs.readFileSync(path.join(fixturesDir, file), "utf8");
+    const lines = text.split("\n");
+    const expected = JSON.parse(
+      fs.readFileSync(path.join(fixturesDir, `${file}.json`), "utf8")
+    );
+
+    const sources = extractGraphQLSources(
+      languageIds[path.extname(file)],
+      text
+    );
+
+    try {
+      assert.deepStrictEqual(
+        sources.map(({ extensionNode, content }) => ({
+          extensionNode,
+          content
+        })),
+        expected
+      );
+
+      // The content of each tag starts exactly at its start position
+      sources.forEach(source =>
+        assert.strictEqual(
+          lines[source.start.line]
+            .slice(source.start.character)
+            .startsWith(source.content.split("\n")[0]),
+          true
+        )
+      );
+
+      console.log(`ok ${file}`);
+    } catch (e) {
+      failures += 1;
+      console.error(`not ok ${file}\n${e.message}`);
+    }
+  });
+
+if (failures > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,19 @@
+let text = `%graphql(\` query A { a } \`)`
+// %graphql(` query B { b } `)
+/* outer /* %graphql(` query C { c } `) */ %graphql(` query D { d } `) */
+let c = '`'
+
+module Query = %relay(`
+  query E {
+    e
+  }
+`)
+
+module Fragment = %relay.fragment(
+  // A comment
+  `fragment F on User { id }`
+)
+
+let string = "%graphql(` query G { g } `)"
+
+module Legacy = %graphql(` query H { h } `)
@@ -0,0 +1,69 @@
+/**
+ * Checks the placeholders made for the arguments of the fixture schema
+ * against the JSON file next to it, including input types that require
+ * themselves. Runs against the build, so build before running it.
+ */
+const assert = require("assert");
+const fs = require("fs");
+const path = require("path");
+const { buildSchema } = require("graphql");
+
+const {
+  isRequired,
+  makePlaceholder,
+  printDefaultValue
+} = require("../build/inputValues");
+
+const fixturesDir = path.join(__dirname, "fixtures", "inputValues");
+
+const schema = buildSchema(
+  fs.readFileSync(path.join(fixturesDir, "schema.graphql"), "utf8")
+);
+const expected = JSON.parse(
+  fs.readFileSync(path.join(fixturesDir, "placeholders.json"), "utf8")
+);
+const args = schema.getQueryType().getFields().users.args;
+
+let failures = 0;
+
+const check = (name, fn) => {
+  try {
+    fn();
+    console.log(`ok ${name}`);
+  } catch (e) {
+    failures += 1;
+    console.error(`not ok ${name}\n${e.message}`);
+  }
+};
+
+check("placeholders", () =>
+  assert.deepStrictEqual(
+    args.reduce(
+      (acc, arg) => ({ ...acc, [arg.name]: makePlaceholder(arg.type) }),
+      {}
+    ),
+    expected
+  )
+);
+
+check("required arguments", () =>
+  assert.deepStrictEqual(
+    args.filter(isRequired).map(arg => arg.name),
+    ["id", "filter", "tree", "left"]
+  )
+);
+
+check("default values", () =>
+  assert.deepStrictEqual(args.map(printDefaultValue), [
+    undefined,
+    undefined,
+    "DESC",
+    undefined,
+    undefined,
+    undefined
+  ])
+);
+
+if (failures > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,101 @@
+/**
+ * Collects the persisted queries of each fixture project, and checks the
+ * documents, their hashes and the annotated modules, or the problems that
+ * keep the manifest from being written, against the expected.json file of the
+ * project. Runs against the build, so build before running it.
+ */
+const assert = require("assert");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const { applySourceEdits } = require("../build/formatFiles");
+const {
+  collectPersistedQueries,
+  makeHashAnnotationEdits
+} = require("../build/persistedQueries");
+
+const fixturesDir = path.join(__dirname, "fixtures", "persistedQueries");
+
+let failures = 0;
+
+const check = (name, fn) => {
+  try {
+    fn();
+    console.log(`ok ${name}`);
+  } catch (e) {
+    failures += 1;
+    console.error(`not ok ${name}\n${e.message}`);
+  }
+};
+
+fs.readdirSync(fixturesDir).forEach(project => {
+  const projectDir = path.join(fixturesDir, project);
+  const expected = JSON.parse(
+    fs.readFileSync(path.join(projectDir, "expected.json"), "utf8")
+  );
+  const files = fs
+    .readdirSync(projectDir)
+    .filter(file => file.endsWith(".re"))
+    .map(file => ({
+      filePath: file,
+      languageId: "reason",
+      text: fs.readFileSync(path.join(projectDir, file), "utf8")
+    }));
+
+  if (expected.problems) {
+    check(`${project} problems`, () =>
+      assert.throws(
+        () => collectPersistedQueries(files),
+        e =>
+          assert.deepStrictEqual(
+            e.message.split("\n").slice(1),
+            expected.problems
+          ) || true
+      )
+    );
+    return;
+  }
+
+  const { manifest, operations } = collectPersistedQueries(files);
+
+  check(`${project} documents`, () =>
+    assert.deepStrictEqual(
+      operations.reduce(
+        (acc, operation) => ({ ...acc, [operation.name]: operation.document }),
+        {}
+      ),
+      expected.documents
+    )
+  );
+
+  check(`${project} hashes`, () =>
+    operations.forEach(operation => {
+      assert.strictEqual(
+        operation.hash,
+        crypto
+          .createHash("sha256")
+          .update(operation.document)
+          .digest("hex")
+      );
+      assert.strictEqual(manifest[operation.hash], operation.document);
+    })
+  );
+
+  check(`${project} annotations`, () =>
+    assert.deepStrictEqual(
+      files.reduce((acc, file) => {
+        const text = applySourceEdits(
+          file.text,
+          makeHashAnnotationEdits(file, operations)
+        );
+        return text === file.text ? acc : { ...acc, [file.filePath]: text };
+      }, {}),
+      expected.annotated
+    )
+  );
+});
+
+if (failures > 0) {
+  process.exit(1);
+}
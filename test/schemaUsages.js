@@ -0,0 +1,59 @@
+/**
+ * Checks the changes found between the fixture schemas, including what each
+ * change's description is mapped to, and which usages of the operations in
+ * the fixture are affected by them, against the JSON files next to them.
+ * Runs against the build, so build before running it.
+ */
+const assert = require("assert");
+const fs = require("fs");
+const path = require("path");
+const { buildSchema, parse } = require("graphql");
+
+const {
+  findSchemaChanges,
+  findSchemaUsages
+} = require("../build/schemaUsages");
+
+const fixturesDir = path.join(__dirname, "fixtures", "schemaUsages");
+const readFixture = file =>
+  fs.readFileSync(path.join(fixturesDir, file), "utf8");
+
+const previousSchema = buildSchema(readFixture("before.graphql"));
+const schema = buildSchema(readFixture("after.graphql"));
+const operations = readFixture("operations.graphql");
+
+let failures = 0;
+
+const check = (name, fn) => {
+  try {
+    fn();
+    console.log(`ok ${name}`);
+  } catch (e) {
+    failures += 1;
+    console.error(`not ok ${name}\n${e.message}`);
+  }
+};
+
+const changes = findSchemaChanges(previousSchema, schema);
+
+check("changes", () =>
+  assert.deepStrictEqual(changes, JSON.parse(readFixture("changes.json")))
+);
+
+check("usages of changes", () => {
+  const coordinates = new Set(changes.map(change => change.coordinate));
+
+  assert.deepStrictEqual(
+    findSchemaUsages(previousSchema, parse(operations))
+      .filter(usage => coordinates.has(usage.coordinate))
+      .map(usage => ({
+        coordinate: usage.coordinate,
+        text: operations.slice(usage.start, usage.end)
+      })),
+    JSON.parse(readFixture("usages.json"))
+  );
+});
+
+if (failures > 0) {
+  process.exit(1);
+}
@@ -0,0 +1,87 @@
+/**
+ * Checks the rendering of the templates in the fixture cases, and which
+ * templates are loaded from the templates file of the fixture project. Runs
+ * against the build, so build before running it.
+ */
+const assert = require("assert");
+const fs = require("fs");
+const path = require("path");
+
+const {
+  defaultTemplates,
+  loadTemplates,
+  renderTemplate
+} = require("../build/templates");
+
+const fixturesDir = path.join(__dirname, "fixtures", "templates");
+
+const values = {
+  moduleName: "UserQuery",
+  fileModule: "User",
+  extensionNode: "relay.query",
+  operationType: "query",
+  operationName: "UserQuery",
+  type: "User",
+  field: "user",
+  variablesDefinition: "",
+  arguments: "",
+  selection: "{\n  id\n}",
+  operation: "query UserQuery {\n  user {\n    id\n  }\n}",
+  component: ""
+};
+
+let failures = 0;
+
+const check = (name, fn) => {
+  try {
+    fn();
+    console.log(`ok ${name}`);
+  } catch (e) {
+    failures += 1;
+    console.error(`not ok ${name}\n${e.message}`);
+  }
+};
+
+JSON.parse(
+  fs.readFileSync(path.join(fixturesDir, "cases.json"), "utf8")
+).forEach(testCase =>
+  check(testCase.name, () =>
+    assert.deepStrictEqual(
+      renderTemplate(
+        typeof testCase.template === "string"
+          ? defaultTemplates[testCase.template]
+          : testCase.template,
+        { ...values, ...testCase.values }
+      ),
+      testCase.expected
+    )
+  )
+);
+
+const projectDir = path.join(fixturesDir, "project");
+const loadNames = (framework, type, syntax) =>
+  loadTemplates(projectDir, framework, type, syntax).map(
+    template => template.name
+  );
+
+check("templates of the syntax", () => {
+  assert.deepStrictEqual(loadNames("ReasonRelay", "Query", "Reason"), [
+    "Page query"
+  ]);
+  assert.deepStrictEqual(loadNames("ReasonRelay", "Query", "ReScript"), [
+    "Page query",
+    "ReScript query"
+  ]);
+});
+
+check("no templates", () => {
+  assert.deepStrictEqual(loadNames("ReasonRelay", "Fragment", "Reason"), []);
+  assert.deepStrictEqual(
+    loadTemplates(fixturesDir, "ReasonRelay", "Query", "Reason"),
+    []
+  );
+});
+
+if (failures > 0) {
+  process.exit(1);
+}
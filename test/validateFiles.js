@@ -0,0 +1,43 @@
+/**
+ * Runs `validate --json` of the command line in each fixture project, and
+ * checks the exit code and the errors against the expected.json file of the
+ * project. Runs against the build, so build before running it.
+ */
+const assert = require("assert");
+const { spawnSync } = require("child_process");
+const fs = require("fs");
+const path = require("path");
+
+const cliPath = path.join(__dirname, "..", "build", "cli.js");
+const fixturesDir = path.join(__dirname, "fixtures", "validateFiles");
+
+let failures = 0;
+
+fs.readdirSync(fixturesDir).forEach(project => {
+  const projectDir = path.join(fixturesDir, project);
+  const runs = JSON.parse(
+    fs.readFileSync(path.join(projectDir, "expected.json"), "utf8")
+  );
+
+  runs.forEach(({ args, exitCode, errors }) => {
+    const name = [project, ...args].join(" ");
+    const result = spawnSync(
+      process.execPath,
+      [cliPath, "validate", "--json", ...args],
+      { cwd: projectDir, encoding: "utf8", timeout: 60000 }
+    );
+
+    try {
+      assert.strictEqual(result.status, exitCode, result.stderr);
+      assert.deepStrictEqual(JSON.parse(result.stdout), errors);
+      console.log(`ok ${name}`);
+    } catch (e) {
+      failures += 1;
+      console.error(`not ok ${name}\n${e.message}`);
+    }
+  });
+});
+
+if (failures > 0) {
+  process.exit(1);
+}
@@ -7,7 +7,8 @@ const config = {
   target: "node",
   entry: {
     extension: "./src/extension.ts",
-    server: "./src/server.ts"
+    server: "./src/server.ts",
+    cli: "./src/cli.ts"
   },
   output: {
     path: path.resolve(__dirname, "build"),